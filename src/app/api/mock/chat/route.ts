@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { mockLatency, playChatTurn } from "@/lib/mock-backend";
+import { mockRoute, readMockBody, readMockState } from "@/lib/mock-route";
+
+// Delay between streamed words, configurable with MOCK_API_TOKEN_DELAY_MS
+const TOKEN_DELAY_MS = Number(process.env.MOCK_API_TOKEN_DELAY_MS ?? 40);
+
+/**
+ * Mock of POST /chat: plays the next scripted turn. Streams the reply as
+ * NDJSON frames when the client accepts them, like the real backend.
+ */
+export const POST = mockRoute(async (request: Request) => {
+  const body = await readMockBody(request);
+  const result = playChatTurn(
+    String(body.message ?? ""),
+    readMockState("/chat", body),
+    body.terminate === true
+  );
+  await mockLatency();
+
+  const accept = request.headers.get("Accept") ?? "";
+  if (!accept.includes("application/x-ndjson")) {
+    return NextResponse.json(result);
+  }
+
+  const encoder = new TextEncoder();
+  const words = result.response.match(/\S+\s*/g) ?? [];
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (frame: unknown) =>
+        controller.enqueue(encoder.encode(`${JSON.stringify(frame)}\n`));
+
+      for (const word of words) {
+        send({ type: "token", content: word });
+        await new Promise((resolve) => setTimeout(resolve, TOKEN_DELAY_MS));
+      }
+      send({ type: "final", ...result });
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: { "Content-Type": "application/x-ndjson" },
+  });
+});
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { mockLatency } from "@/lib/mock-backend";
+import { mockRoute, readMockBody } from "@/lib/mock-route";
+
+/**
+ * Mock of POST /consent: accepts the consent record without storing it
+ */
+export const POST = mockRoute(async (request: Request) => {
+  await readMockBody(request);
+  await mockLatency();
+  return NextResponse.json({ status: "ok" });
+});
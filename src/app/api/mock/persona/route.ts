@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import {
+  buildPersona,
+  buildStructuredPersona,
+  mockLatency,
+} from "@/lib/mock-backend";
+import { mockRoute, readMockBody, readMockState } from "@/lib/mock-route";
+
+/**
+ * Mock of POST /persona: summarizes the scores recorded in the state, as
+ * text or, with MOCK_API_STRUCTURED_PERSONA=true, as structured JSON
+ */
+export const POST = mockRoute(async (request: Request) => {
+  const body = await readMockBody(request);
+  const state = readMockState("/persona", body);
+  await mockLatency();
+
+  const structured =
+    process.env.MOCK_API_STRUCTURED_PERSONA === "true"
+      ? buildStructuredPersona(state)
+      : null;
+  return NextResponse.json({ response: structured ?? buildPersona(state) });
+});
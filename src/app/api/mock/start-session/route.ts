@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { mockLatency, mockUserId } from "@/lib/mock-backend";
+import { mockRoute } from "@/lib/mock-route";
+
+/**
+ * Mock of POST /start-session: hands out fresh user and session ids
+ */
+export const POST = mockRoute(async () => {
+  await mockLatency();
+  return NextResponse.json({
+    user_id: mockUserId(),
+    session_id: `mock-session-${crypto.randomUUID().slice(0, 8)}`,
+  });
+});
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { mockLatency } from "@/lib/mock-backend";
+import { mockRoute } from "@/lib/mock-route";
+import { DEFAULT_TRAIT_REGISTRY } from "@/lib/traits";
+
+/**
+ * Mock of GET /traits: serves the built-in trait registry, for trying out
+ * NEXT_PUBLIC_TRAIT_REGISTRY=backend
+ */
+export const GET = mockRoute(async () => {
+  await mockLatency();
+
+  return NextResponse.json({
+    traits: DEFAULT_TRAIT_REGISTRY.traits.map((trait) => ({
+      key: trait.key,
+      label: trait.label,
+      description: trait.description,
+      score_scale: trait.scoreScale,
+      confidence_scale: trait.confidenceScale,
+    })),
+    min_traits_for_persona: DEFAULT_TRAIT_REGISTRY.minTraitsForPersona,
+    aggregation: {
+      method: DEFAULT_TRAIT_REGISTRY.aggregation.method,
+      half_life: DEFAULT_TRAIT_REGISTRY.aggregation.halfLife,
+    },
+  });
+});
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import {
+  getMockWithdrawal,
+  mockLatency,
+  mockSessionStart,
+} from "@/lib/mock-backend";
+import { mockRoute } from "@/lib/mock-route";
+
+/**
+ * Mock of GET /withdrawal/<user_id>: reports when the user's session started
+ * and whether consent was withdrawn. Only knows user IDs the mock created.
+ */
+export const GET = mockRoute(
+  async (
+    _request: Request,
+    { params }: { params: Promise<{ userId: string }> }
+  ) => {
+    const { userId } = await params;
+    await mockLatency();
+
+    const start = mockSessionStart(userId);
+    if (!start) {
+      return NextResponse.json({ detail: "Unknown user ID" }, { status: 404 });
+    }
+    return NextResponse.json({
+      user_id: userId,
+      session_started_at: start.toISOString(),
+      withdrawn_at: getMockWithdrawal(userId)?.withdrawn_at ?? null,
+    });
+  }
+);
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import {
+  getMockWithdrawal,
+  mockLatency,
+  mockSessionStart,
+  recordMockWithdrawal,
+} from "@/lib/mock-backend";
+import { mockRoute, readMockBody } from "@/lib/mock-route";
+import { canWithdraw } from "@/lib/withdrawal";
+
+/**
+ * Mock of POST /withdrawal: withdraws consent within the withdrawal window
+ * and returns a receipt
+ */
+export const POST = mockRoute(async (request: Request) => {
+  const body = await readMockBody(request);
+  const userId = String(body.user_id ?? "");
+  await mockLatency();
+
+  const start = mockSessionStart(userId);
+  if (!start) {
+    return NextResponse.json({ detail: "Unknown user ID" }, { status: 404 });
+  }
+  if (getMockWithdrawal(userId)) {
+    return NextResponse.json(
+      { detail: "Consent already withdrawn" },
+      { status: 409 }
+    );
+  }
+  if (!canWithdraw(start.toISOString())) {
+    return NextResponse.json(
+      { detail: "Withdrawal window has closed" },
+      { status: 403 }
+    );
+  }
+  return NextResponse.json(recordMockWithdrawal(userId));
+});
@@ -2,12 +2,49 @@
 
 import type React from "react";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useRouter } from "next/navigation";
+import * as api from "@/lib/api";
+import * as chatStorage from "@/lib/chat-storage";
+import { type ConsentRecord, readConsent, storeConsent } from "@/lib/consent";
+import { withRetry } from "@/lib/retry";
+import {
+  type PersonaReport as PersonaReportData,
+  toPersonaReport,
+} from "@/lib/persona";
+import * as reportExport from "@/lib/report-export";
+import {
+  buildSessionExport,
+  downloadSessionExport,
+} from "@/lib/session-export";
+import { PersonaReport } from "@/components/persona-report";
+import { TraitRadarChart } from "@/components/trait-radar-chart";
+import { TraitTimeline } from "@/components/trait-timeline";
+import { BackendStatePanel } from "@/components/backend-state-panel";
+import { useResearcherMode } from "@/hooks/use-researcher-mode";
+import { useTraitRegistry } from "@/hooks/use-trait-registry";
+import { useLocale } from "@/hooks/use-locale";
+import { useModalDialog } from "@/hooks/use-modal-dialog";
+import { LocaleSwitcher } from "@/components/locale-switcher";
+import { MessageComposer } from "@/components/message-composer";
+import { CommandNotice } from "@/components/command-notice";
+import { MAX_MESSAGE_LENGTH } from "@/lib/composer";
+import {
+  DESTRUCTIVE_COMMANDS,
+  parseCommand,
+  type ParsedCommand,
+} from "@/lib/commands";
+import { AGGREGATION_LABELS, aggregateTraitScores } from "@/lib/aggregation";
+import {
+  DEFAULT_CONFIDENCE_SCALE,
+  DEFAULT_SCORE_SCALE,
+  getTrait,
+  getTraitLabel,
+} from "@/lib/traits";
+import type { ChatState, Message, TraitData } from "@/lib/types";
 import {
   Send,
   User,
@@ -16,42 +53,12 @@ import {
   TrendingUp,
   X,
   UserCircle,
+  RotateCcw,
+  Download,
+  Printer,
+  Pencil,
 } from "lucide-react";
 
-/**
- * Represents a chat message between user and AI
- */
-interface Message {
-  id: string;
-  type: "user" | "ai";
-  content: string;
-  timestamp: Date;
-}
-
-/**
- * Represents assessment data for a specific financial trait
- */
-interface TraitData {
-  trait: string;
-  score?: number; // Score from 1-5
-  confidence?: number; // Confidence level from 1-10
-  sentence?: string; // Assessment description
-  rationale?: string; // Reasoning behind the assessment
-  timestamp?: Date; // When the assessment was made
-}
-
-/**
- * Main state structure for the chat application
- */
-interface ChatState {
-  messages: Message[]; // Array of all chat messages
-  traitData: TraitData[]; // Array of all trait assessments
-  currentPriority?: string; // Current trait being assessed
-  currentIteration?: number; // Current iteration of assessment
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  backendState?: any; // Complete backend state for API calls
-}
-
 /**
  * Main Chat component for financial trait assessment
  * Provides a conversational interface to assess user's financial traits
@@ -62,40 +69,40 @@ export default function Chat() {
   const [userId, setUserId] = useState<string | null>(null);
   const [sessionId, setSessionId] = useState<string | null>(null);
 
-  // Production changes
-  const API_BASE = process.env.NEXT_PUBLIC_API_URL;
-  // const API_BASE=  "http://localhost:8000"
-
-  useEffect(() => {
-    // for database
-    async function startSession() {
-      try {
-        const res = await fetch(`${API_BASE}/start-session`, {
-          method: "POST",
-        });
-        const data = await res.json();
-        console.log("Session started:", data);
-
-        setUserId(data.user_id);
-        setSessionId(data.session_id);
-      } catch (err) {
-        console.error("Failed to start session", err);
-      }
-    }
-    startSession();
-  }, []);
-
   // Input state for the message input field
   const [input, setInput] = useState("");
 
+  // Latest user message being edited, with the text typed so far
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(
+    null
+  );
+
   // Loading state for API calls
   const [isLoading, setIsLoading] = useState(false);
 
+  // True while reply tokens are being streamed into the AI message bubble
+  const [isStreaming, setIsStreaming] = useState(false);
+
+  // Browser connectivity, messages are queued while offline
+  const [isOnline, setIsOnline] = useState(true);
+
+  // Id of the user message currently being delivered, guards against double sends
+  const inFlightRef = useRef<string | null>(null);
+
   // State for controlling persona popup visibility
   const [showPersonaPopup, setShowPersonaPopup] = useState(false);
 
+  // Floating persona button, focused again when the popup closes
+  const personaButtonRef = useRef<HTMLButtonElement>(null);
+
+  // Latest complete reply, read out by screen readers
+  const [announcement, setAnnouncement] = useState("");
+  const wasLoadingRef = useRef(false);
+
   // Generated persona data from backend
-  const [personaData, setPersonaData] = useState<string>("");
+  const [personaData, setPersonaData] = useState<PersonaReportData | null>(
+    null
+  );
   // const [personaLabel, setPersonaLabel] = useState<string>("");
 
   // Loading state for persona generation
@@ -103,6 +110,12 @@ export default function Chat() {
 
   const [isTerminated, setIsTerminated] = useState(false);
 
+  // Reply to /help, /progress or an unknown command, shown above the
+  // composer and not kept in the conversation
+  const [commandNotice, setCommandNotice] = useState<ParsedCommand | null>(
+    null
+  );
+
   const router = useRouter();
 
   // Main chat state containing messages and trait assessments
@@ -113,84 +126,196 @@ export default function Chat() {
 
   // Controls whether user can continue chatting (disabled after assessment completion)
   const [shouldContinue, setShouldContinue] = useState(true);
-  // Base URL for backend API from environment variable
 
-  /**
-   * List of financial traits that the system can assess
-   * These correspond to specific psychological and behavioral patterns
-   */
-  const traits = [
-    "awareness",
-    "self_control",
-    "preparedness",
-    "information_seeking",
-    "risk_seeking",
-    "reaction_to_external_events",
-  ];
+  // True while a new backend session is being started; nothing is sent
+  // until it has, so no message lands in the session being replaced
+  const [isStartingSession, setIsStartingSession] = useState(false);
+
+  // The backend session could not be started, offered for retry
+  const [startFailed, setStartFailed] = useState(false);
+
+  // Consent that could not be recorded for a new session, offered for retry
+  const [consentFailed, setConsentFailed] = useState<ConsentRecord | null>(
+    null
+  );
 
   /**
-   * Converts snake_case trait names to human-readable format
-   * @param trait - The trait name in snake_case
-   * @returns Formatted trait name with proper capitalization
+   * Records the participant's earlier consent for a session started on this
+   * page, e.g. by "Start over". The chat keeps working if it fails; the
+   * failure is shown with a retry button.
    */
-  const getTraitDisplayName = (trait: string) => {
-    return trait
-      .split("_")
-      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(" ");
+  const recordSessionConsent = async (consent: ConsentRecord) => {
+    setConsentFailed(null);
+    try {
+      await withRetry(
+        () =>
+          api.recordConsent(
+            { user_id: consent.userId, session_id: consent.sessionId },
+            {
+              consent_version: consent.version,
+              locale: consent.locale,
+              consented_at: consent.consentedAt,
+            }
+          ),
+        {
+          shouldRetry: (error) =>
+            error instanceof api.ApiError && error.retryable,
+        }
+      );
+    } catch (err) {
+      console.error("Failed to record consent", err);
+      setConsentFailed(consent);
+    }
   };
 
   /**
-   * Calculates average scores and confidence levels for each trait
-   * Aggregates multiple assessments for the same trait over time
-   * @returns Array of traits with their averaged scores and confidence levels
+   * Starts a new backend session with an empty conversation. The current
+   * conversation is only discarded once the backend has started the new
+   * session; if it cannot, the conversation is kept and the failure shown
+   * with a retry button.
    */
-  const getLatestTraitScores = () => {
-    const traitAggregates: {
-      [key: string]: {
-        totalScore: number;
-        totalConfidence: number;
-        count: number;
+  const startSession = async () => {
+    let data: api.StartSessionResponse;
+    setIsStartingSession(true);
+    setStartFailed(false);
+    try {
+      data = await api.startSession();
+      console.log("Session started:", data);
+    } catch (err) {
+      console.error("Failed to start session", err);
+      setStartFailed(true);
+      return;
+    } finally {
+      setIsStartingSession(false);
+    }
+
+    if (sessionId) chatStorage.clearSession(sessionId);
+    setChatState({ messages: [], traitData: [] });
+    setPersonaData(null);
+    setShowPersonaPopup(false);
+    setIsTerminated(false);
+    setShouldContinue(true);
+    setInput("");
+    setEditing(null);
+    setCommandNotice(null);
+    setConsentFailed(null);
+    setUserId(data.user_id);
+    setSessionId(data.session_id);
+
+    // The participant has already consented, record it for this session too
+    const consent = readConsent();
+    if (consent) {
+      const record = {
+        ...consent,
+        userId: data.user_id,
+        sessionId: data.session_id,
       };
-    } = {};
-
-    // Aggregate all trait data by trait name
-    chatState.traitData.forEach((data) => {
-      if (data.score !== undefined) {
-        if (!traitAggregates[data.trait]) {
-          traitAggregates[data.trait] = {
-            totalScore: 0,
-            totalConfidence: 0,
-            count: 0,
-          };
-        }
+      storeConsent(record);
+      await recordSessionConsent(record);
+    }
+  };
 
-        traitAggregates[data.trait].totalScore += data.score;
-        traitAggregates[data.trait].totalConfidence += data.confidence || 0;
-        traitAggregates[data.trait].count += 1;
-      }
+  useEffect(() => {
+    // Resume the session after a reload instead of creating a new one. Only
+    // the session the consent was given for: any other session stored in
+    // this browser may belong to an earlier participant.
+    const consent = readConsent();
+    const stored = consent && chatStorage.loadSession(consent.sessionId);
+    if (stored) {
+      console.log("Session restored:", stored.sessionId);
+      setUserId(stored.userId);
+      setSessionId(stored.sessionId);
+      // A message that was mid-flight when the page unloaded may or may not
+      // have reached the backend; let the user retry it explicitly
+      setChatState({
+        ...stored.chatState,
+        messages: stored.chatState.messages.map((m) =>
+          m.status === "sending" ? { ...m, status: "failed" } : m
+        ),
+      });
+      setPersonaData(stored.personaData);
+      setIsTerminated(stored.isTerminated);
+      setShouldContinue(stored.shouldContinue);
+      return;
+    }
+    // The consent page already started a session and recorded consent for it
+    if (consent) {
+      setUserId(consent.userId);
+      setSessionId(consent.sessionId);
+      return;
+    }
+    startSession();
+    // Only on mount, startSession is recreated on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Persist the session locally so it survives page reloads
+  useEffect(() => {
+    // Skip half-streamed replies, the turn is saved once it completes
+    if (!userId || !sessionId || isStreaming) return;
+    chatStorage.saveSession({
+      userId,
+      sessionId,
+      chatState,
+      personaData,
+      isTerminated,
+      shouldContinue,
     });
+  }, [
+    userId,
+    sessionId,
+    chatState,
+    personaData,
+    isTerminated,
+    shouldContinue,
+    isStreaming,
+  ]);
 
-    // Calculate averages for each trait
-    return Object.entries(traitAggregates).map(([trait, aggregate]) => ({
-      trait,
-      score: aggregate.totalScore / aggregate.count,
-      confidence: aggregate.totalConfidence / aggregate.count,
-    }));
+  /**
+   * Discards the current conversation and starts a new backend session
+   */
+  const startOver = async () => {
+    if (!window.confirm(t("commands.confirmRestart"))) return;
+    await startSession();
   };
 
-  // Alternative implementation that keeps only the latest score per trait
-  // const getLatestTraitScores = () => {
-  //   const latestScores: { [key: string]: TraitData } = {}
+  // Researchers can unlock the assessment cards and the backend state panel
+  const researcherMode = useResearcherMode();
+
+  /**
+   * Financial traits that the system can assess, from the study's trait
+   * registry. These correspond to specific psychological and behavioral patterns
+   */
+  const traitRegistry = useTraitRegistry();
+  const { locale, t, rich } = useLocale();
+  const traits = traitRegistry.traits.map((trait) => trait.key);
+
+  /**
+   * Display name of a trait from the registry
+   * @param trait - The trait key in snake_case
+   */
+  const getTraitDisplayName = (trait: string) =>
+    getTraitLabel(traitRegistry, trait);
 
-  //   chatState.traitData.forEach((data) => {
-  //     if (data.score !== undefined) {
-  //       latestScores[data.trait] = data
-  //     }
-  //   })
+  /**
+   * Top of a trait's score and confidence scales, for "x/5"-style labels
+   * @param trait - The trait key in snake_case
+   */
+  const getTraitScaleMax = (trait: string) => {
+    const definition = getTrait(traitRegistry, trait);
+    return {
+      score: (definition?.scoreScale ?? DEFAULT_SCORE_SCALE).max,
+      confidence: (definition?.confidenceScale ?? DEFAULT_CONFIDENCE_SCALE).max,
+    };
+  };
 
-  //   return Object.values(latestScores)
-  // }
+  /**
+   * Calculates the final score and confidence level of each trait
+   * Aggregates multiple assessments for the same trait with the study's method
+   * @returns Array of traits with their aggregated scores and confidence levels
+   */
+  const getTraitScores = () =>
+    aggregateTraitScores(chatState.traitData, traitRegistry.aggregation);
 
   /**
    * Generates a personality profile based on the current assessment data
@@ -199,34 +324,32 @@ export default function Chat() {
   const generatePersona = async () => {
     // Validate that we have assessment data before generating persona
     if (!chatState.backendState) {
-      alert("No assessment data available. Please have a conversation first.");
+      alert(t("chat.noAssessment"));
       return;
     }
 
     setIsGeneratingPersona(true);
     try {
       // Call backend persona generation endpoint
-      const response = await fetch(`${API_BASE}/persona`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          state: chatState.backendState,
-          user_id: userId,
-          session_id: sessionId,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
+      const { method, halfLife } = traitRegistry.aggregation;
+      const data = await api.generatePersona(
+        { user_id: userId, session_id: sessionId },
+        chatState.backendState,
+        {
+          method,
+          half_life: method === "exponential_decay" ? halfLife : undefined,
+          scores: Object.fromEntries(
+            getTraitScores().map(({ trait, score, confidence }) => [
+              trait,
+              { score, confidence },
+            ])
+          ),
+        }
+      );
       console.log("Persona response:", data);
 
       // Set the generated persona data and  show popup
-      setPersonaData(data.response);
+      setPersonaData(toPersonaReport(data.response));
 
       // if (data.persona_label!="Not Assessed"){
       //     setPersonaLabel(data.persona_label)
@@ -237,181 +360,429 @@ export default function Chat() {
       setShowPersonaPopup(true);
     } catch (error) {
       console.error("Error generating persona:", error);
-      alert("Failed to generate persona. Please try again.");
+      alert(t("persona.failed"));
     } finally {
       setIsGeneratingPersona(false);
     }
   };
 
   /**
-   * Handles form submission for chat messages
-   * Sends user message to backend and processes the response
-   * @param e - Form submission event
+   * Extracts the trait assessments in the backend state that are not yet
+   * part of the chat state
+   * @param existing - Trait data already recorded
+   * @param state - Updated backend state returned by /chat
+   * @returns Only the new trait data entries
    */
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading) return;
+  const extractNewTraitData = (
+    existing: TraitData[],
+    state: api.BackendState
+  ) => {
+    const newTraitData: TraitData[] = [];
+    const currentTime = new Date();
+
+    // Process each trait to extract new assessment data
+    traits.forEach((trait) => {
+      const { scores, confidences, sentences, rationales } =
+        api.getTraitSeries(state, trait);
+
+      // Get the count of existing trait data for this trait
+      const existingCount = existing.filter((t) => t.trait === trait).length;
+
+      // If we have new data (more items than before), add the new ones
+      if (
+        scores.length > existingCount ||
+        sentences.length > existingCount ||
+        rationales.length > existingCount
+      ) {
+        const maxLength = Math.max(
+          scores.length,
+          sentences.length,
+          rationales.length,
+          confidences.length
+        );
+
+        // Add new trait data items
+        for (let i = existingCount; i < maxLength; i++) {
+          // Only add if we have at least a sentence or score
+          if (sentences[i] || scores[i] !== undefined) {
+            newTraitData.push({
+              trait,
+              score: scores[i],
+              confidence: confidences[i],
+              sentence: sentences[i],
+              rationale: rationales[i],
+              timestamp: new Date(currentTime.getTime() + newTraitData.length), // Unique timestamp for ordering
+              iteration: state.current_iteration ?? undefined,
+            });
+          }
+        }
+      }
+    });
 
-    // Create user message object
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      type: "user",
-      content: input.trim(),
-      timestamp: new Date(),
-    };
+    return newTraitData;
+  };
 
-    // Add user message to chat state
+  /**
+   * Updates the delivery status of a user message
+   */
+  const setMessageStatus = (
+    messageId: string,
+    status: Message["status"],
+    error?: string
+  ) => {
     setChatState((prev) => ({
       ...prev,
-      messages: [...prev.messages, userMessage],
+      messages: prev.messages.map((m) =>
+        m.id === messageId ? { ...m, status, error } : m
+      ),
     }));
+  };
 
-    // Clear input and set loading state
-    setInput("");
+  /**
+   * Sends a user message to the backend and applies the reply.
+   * Transient failures are retried with backoff using the same backend
+   * state and message id, and a reply is only ever applied to a message
+   * that is still waiting for one, so the assessment cannot advance twice
+   * for the same input.
+   * @param message - Queued or failed user message to deliver
+   */
+  const deliverMessage = async (message: Message) => {
+    // Only one turn can be in flight, each turn builds on the previous state
+    if (inFlightRef.current) return;
+    inFlightRef.current = message.id;
+
+    setMessageStatus(message.id, "sending");
     setIsLoading(true);
 
+    // Streamed tokens are rendered into this AI message as they arrive
+    const aiMessageId = `${message.id}-reply`;
+    const dropPartialReply = () =>
+      setChatState((prev) => ({
+        ...prev,
+        messages: prev.messages.filter((m) => m.id !== aiMessageId),
+      }));
+
     try {
       // Send message to backend chat endpoint
-      // console.log("userId")
-      // console.log(userId)
-      const response = await fetch(`${API_BASE}/chat`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          user_id: userId,
-          session_id: sessionId,
-          message: input.trim(),
-          state: chatState.backendState || null,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      console.log("Backend response:", data);
-
-      // // Terminating chat when user writes end
+      const data = await withRetry(
+        () =>
+          api.streamChatMessage(
+            { user_id: userId, session_id: sessionId },
+            {
+              message: message.content,
+              state: chatState.backendState || null,
+              client_message_id: message.id,
+              locale,
+              replaces_message_id: message.replaces,
+              terminate: message.terminate,
+            },
+            (token) => {
+              setIsStreaming(true);
+              setChatState((prev) => {
+                const exists = prev.messages.some((m) => m.id === aiMessageId);
+                return {
+                  ...prev,
+                  messages: exists
+                    ? prev.messages.map((m) =>
+                        m.id === aiMessageId
+                          ? { ...m, content: m.content + token }
+                          : m
+                      )
+                    : [
+                        ...prev.messages,
+                        {
+                          id: aiMessageId,
+                          type: "ai",
+                          content: token,
+                          timestamp: new Date(),
+                        },
+                      ],
+                };
+              });
+            }
+          ),
+        {
+          shouldRetry: (error) =>
+            error instanceof api.ApiError &&
+            error.retryable &&
+            navigator.onLine,
+          onRetry: (attempt, error) => {
+            console.warn(`Retrying message (attempt ${attempt}):`, error);
+            // The retry streams the reply again from the start
+            setIsStreaming(false);
+            dropPartialReply();
+          },
+        }
+      );
 
-      if (data.response == "terminate") {
-        data.response =
-          "We are ending the chat as per your request. Thank you for your time and participation in this study. Have a great day!";
-        console.log("chat terminated");
+      if (data.terminated) {
         setIsTerminated(true);
       }
 
       // Create AI response message
       const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: aiMessageId,
         type: "ai",
-        content: data.response,
+        content:
+          data.terminated && !data.response.trim()
+            ? t("chat.farewell")
+            : data.response,
         timestamp: new Date(),
       };
 
-      console.log(
-        "should continue: ",
-        data.updated_state.continue_conversation
-      );
-
       // Check if conversation should end and show final persona
       if (!data.updated_state.continue_conversation) {
         setShouldContinue(false);
-        console.log("loading persona data: ", data);
-        aiMessage.content = data.updated_state.persona;
+        aiMessage.content = data.updated_state.persona ?? data.response;
       }
 
-      // Extract NEW trait data from backend state
-      const newTraitData: TraitData[] = [];
-      const currentTime = new Date();
-
-      // Process each trait to extract new assessment data
-      traits.forEach((trait) => {
-        const scores = data.updated_state[`${trait}_score`] || [];
-        const confidences = data.updated_state[`${trait}_confidence`] || [];
-        const sentences = data.updated_state[`${trait}_sentences`] || [];
-        const rationales = data.updated_state[`${trait}_rationale`] || [];
-
-        console.log(`${trait} data:`, {
-          scores,
-          confidences,
-          sentences,
-          rationales,
-        });
-
-        // Get the count of existing trait data for this trait
-        const existingCount = chatState.traitData.filter(
-          (t) => t.trait === trait
-        ).length;
-
-        // If we have new data (more items than before), add the new ones
-        if (
-          scores.length > existingCount ||
-          sentences.length > existingCount ||
-          rationales.length > existingCount
-        ) {
-          const maxLength = Math.max(
-            scores.length,
-            sentences.length,
-            rationales.length,
-            confidences.length
-          );
-
-          // Add new trait data items
-          for (let i = existingCount; i < maxLength; i++) {
-            // Only add if we have at least a sentence or score
-            if (sentences[i] || scores[i] !== undefined) {
-              newTraitData.push({
-                trait,
-                score: scores[i],
-                confidence: confidences[i],
-                sentence: sentences[i],
-                rationale: rationales[i],
-                timestamp: new Date(
-                  currentTime.getTime() + newTraitData.length
-                ), // Unique timestamp for ordering
-              });
-            }
-          }
-        }
+      // Update chat state with new message and trait data. The final reply
+      // replaces whatever was streamed, e.g. with the farewell text.
+      setChatState((prev) => {
+        // Ignore the reply if this message has already been answered
+        const pending = prev.messages.some(
+          (m) => m.id === message.id && m.status === "sending"
+        );
+        if (!pending) return prev;
+
+        const newTraitData = extractNewTraitData(
+          prev.traitData,
+          data.updated_state
+        );
+
+        const messages = prev.messages.map((m) =>
+          m.id === message.id ? { ...m, status: undefined, error: undefined } : m
+        );
+        return {
+          messages: messages.some((m) => m.id === aiMessageId)
+            ? messages.map((m) =>
+                m.id === aiMessageId
+                  ? { ...aiMessage, timestamp: m.timestamp }
+                  : m
+              )
+            : [...messages, aiMessage],
+          traitData: [...prev.traitData, ...newTraitData],
+          currentPriority: data.updated_state.current_priority ?? undefined,
+          currentIteration: data.updated_state.current_iteration ?? undefined,
+          backendState: data.updated_state,
+          // Lets this message be edited and resent
+          rollback: {
+            messageId: message.id,
+            traitCount: prev.traitData.length,
+            currentPriority: prev.currentPriority,
+            currentIteration: prev.currentIteration,
+            backendState: prev.backendState,
+          },
+        };
       });
+    } catch (error) {
+      console.error("Error:", error);
+
+      // Drop any partially streamed reply and flag the message: requeue it
+      // if the connection dropped, otherwise let the user retry it
+      dropPartialReply();
+      setMessageStatus(
+        message.id,
+        navigator.onLine ? "failed" : "queued",
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      inFlightRef.current = null;
+      setIsStreaming(false);
+      setIsLoading(false);
+    }
+  };
 
-      console.log("New trait data extracted:", newTraitData); // Debug log
+  /**
+   * Downloads the persona and aggregated trait scores in the chosen format
+   * @param format - "pdf" opens the print dialog, the others save a file
+   */
+  const exportReport = (format: "pdf" | "markdown" | "json") => {
+    if (!personaData) return;
+
+    const report: reportExport.AssessmentReport = {
+      generatedAt: new Date().toISOString(),
+      userId,
+      sessionId,
+      persona: {
+        ...personaData,
+        traitNotes: personaData.traitNotes.map((note) => ({
+          ...note,
+          trait: note.trait && getTraitDisplayName(note.trait),
+        })),
+      },
+      aggregation: AGGREGATION_LABELS[traitRegistry.aggregation.method],
+      traitScores: getTraitScores().map((t) => ({
+        ...t,
+        label: getTraitDisplayName(t.trait),
+        scoreMax: getTraitScaleMax(t.trait).score,
+        confidenceMax: getTraitScaleMax(t.trait).confidence,
+      })),
+    };
+    const fileName = reportExport.reportFileName(report);
 
-      // Update chat state with new message and trait data
-      setChatState((prev) => ({
-        messages: [...prev.messages, aiMessage],
-        traitData: [...prev.traitData, ...newTraitData],
-        currentPriority: data.updated_state.current_priority,
-        currentIteration: data.updated_state.current_iteration,
-        backendState: data.updated_state,
-      }));
+    if (format === "pdf") {
+      if (!reportExport.printReport(report)) {
+        alert(t("persona.popupBlocked"));
+      }
+    } else if (format === "markdown") {
+      reportExport.downloadFile(
+        `${fileName}.md`,
+        reportExport.reportToMarkdown(report),
+        "text/markdown"
+      );
+    } else {
+      reportExport.downloadFile(
+        `${fileName}.json`,
+        reportExport.reportToJson(report),
+        "application/json"
+      );
+    }
+  };
 
-      setIsLoading(false);
-    } catch (error) {
-      console.error("Error:", error);
+  /**
+   * Downloads the full session (transcript, trait data, scores, persona and
+   * any submitted feedback) for researchers
+   * @param format - "json" or "csv", see "Session Export" in the README
+   */
+  const exportSession = (format: "json" | "csv") => {
+    if (!userId || !sessionId) return;
+
+    const data = buildSessionExport(
+      {
+        userId,
+        sessionId,
+        chatState,
+        personaData,
+        feedback: chatStorage.loadSession(sessionId)?.feedback,
+      },
+      traitRegistry
+    );
+    downloadSessionExport(data, format);
+  };
 
-      // Create error message for display
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        type: "ai",
-        content: `I apologize, but I'm having trouble connecting right now. Please try again.\nError: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
-        timestamp: new Date(),
-      };
+  /**
+   * Handles form submission for chat messages
+   * Queues the user message, it is sent as soon as the connection allows
+   * @param e - Form submission event
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim()) return;
+
+    // Commands that only show information work while a reply is loading
+    const parsed = parseCommand(input);
+    const command = parsed?.type === "command" ? parsed.command : null;
+    if (parsed && !(command && DESTRUCTIVE_COMMANDS.has(command))) {
+      setCommandNotice(parsed);
+      setInput("");
+      return;
+    }
+    if (isLoading || !sessionId || isStartingSession) return;
+    setCommandNotice(null);
 
-      // Add error message to chat
-      setChatState((prev) => ({
-        ...prev,
-        messages: [...prev.messages, errorMessage],
-      }));
-      setIsLoading(false);
+    // Destructive commands keep their text in the composer if cancelled
+    if (command === "restart") {
+      await startOver();
+      return;
+    }
+    if (command === "end" && !window.confirm(t("commands.confirmEnd"))) {
+      return;
+    }
+
+    // Create user message object. Ending the chat is still sent as a
+    // message, the backend closes the session and says goodbye. It is sent
+    // as the plain "end" keyword so backends that predate the terminate
+    // flag end the chat too instead of assessing "/end" as an answer.
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      type: "user",
+      content:
+        command === "end" ? "end" : input.trim().slice(0, MAX_MESSAGE_LENGTH),
+      timestamp: new Date(),
+      status: "queued",
+      terminate: command === "end" || undefined,
+    };
+
+    // Add user message to chat state. A newer message supersedes any earlier
+    // failed one, which can then no longer be retried.
+    setChatState((prev) => ({
+      ...prev,
+      messages: [...prev.messages, userMessage],
+    }));
+
+    // Clear input
+    setInput("");
+  };
+
+  /**
+   * Replaces the latest user message with its edited text: the turn it
+   * started is undone (its reply, trait assessments and backend state) and
+   * the edited message is queued so the assessment is redone from the
+   * earlier state
+   */
+  const resendEditedMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = editing?.text.trim().slice(0, MAX_MESSAGE_LENGTH);
+    const original = chatState.messages.find((m) => m.id === editing?.id);
+    if (!editing || !content || !original || !canEditMessage(original)) {
+      return;
     }
+
+    setChatState((prev) => {
+      const rollback = prev.rollback;
+      if (!rollback || rollback.messageId !== original.id) return prev;
+      const index = prev.messages.findIndex((m) => m.id === original.id);
+      return {
+        messages: [
+          ...prev.messages.slice(0, index),
+          {
+            id: Date.now().toString(),
+            type: "user",
+            content,
+            timestamp: new Date(),
+            status: "queued",
+            replaces: original.id,
+          },
+        ],
+        traitData: prev.traitData.slice(0, rollback.traitCount),
+        currentPriority: rollback.currentPriority,
+        currentIteration: rollback.currentIteration,
+        backendState: rollback.backendState,
+      };
+    });
+    setEditing(null);
+  };
+
+  /**
+   * Puts a failed message back in the queue so it is delivered again
+   * @param message - Failed user message, must be the latest one
+   */
+  const retryMessage = (message: Message) => {
+    if (isLoading || message.status !== "failed") return;
+    setMessageStatus(message.id, "queued");
   };
 
+  // Track connectivity so messages typed while offline wait in the queue
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    updateOnline();
+    window.addEventListener("online", updateOnline);
+    window.addEventListener("offline", updateOnline);
+    return () => {
+      window.removeEventListener("online", updateOnline);
+      window.removeEventListener("offline", updateOnline);
+    };
+  }, []);
+
+  // Deliver queued messages one at a time, in the order they were typed
+  useEffect(() => {
+    if (!isOnline || isLoading || !sessionId || isStartingSession) return;
+    const next = chatState.messages.find((m) => m.status === "queued");
+    if (next) deliverMessage(next);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOnline, isLoading, sessionId, isStartingSession, chatState.messages]);
+
   useEffect(() => {
     const container = document.getElementById("messages-container");
     console.log("Messages container:", chatState.messages);
@@ -423,11 +794,69 @@ export default function Chat() {
     }
   }, [chatState.messages]);
 
+  // Announce a reply once it is complete rather than token by token
+  useEffect(() => {
+    if (wasLoadingRef.current && !isLoading) {
+      const last = chatState.messages[chatState.messages.length - 1];
+      if (last?.type === "ai") {
+        setAnnouncement(t("chat.newReply", { reply: last.content }));
+      }
+    }
+    wasLoadingRef.current = isLoading;
+  }, [isLoading, chatState.messages, t]);
+
+  const personaDialogRef = useModalDialog<HTMLDivElement>(
+    showPersonaPopup,
+    () => setShowPersonaPopup(false),
+    personaButtonRef
+  );
+
   // Get the calculated trait scores for display
-  const latestScores = getLatestTraitScores();
+  const latestScores = getTraitScores();
+
+  // Only the most recent user message can be retried, older failures have
+  // been superseded by what the user typed afterwards
+  const lastUserMessageId = [...chatState.messages]
+    .reverse()
+    .find((m) => m.type === "user")?.id;
+
+  /**
+   * Whether a user message can still be edited: only the latest answered
+   * one, while the conversation is open, since later turns and the persona
+   * build on it
+   */
+  const canEditMessage = (message: Message) =>
+    message.id === lastUserMessageId &&
+    message.status === undefined &&
+    chatState.rollback?.messageId === message.id &&
+    !isLoading &&
+    !isTerminated &&
+    shouldContinue &&
+    !personaData;
+
+  // Close the inline editor once its message can no longer be edited, e.g.
+  // when a newer message was sent from the main composer
+  const editedMessage = chatState.messages.find((m) => m.id === editing?.id);
+  const canKeepEditing = !!editedMessage && canEditMessage(editedMessage);
+  useEffect(() => {
+    if (editing && !canKeepEditing) setEditing(null);
+  }, [editing, canKeepEditing]);
 
   return (
     <div className="min-h-screen bg-gray-900 text-white relative ">
+      {researcherMode.enabled && (
+        <BackendStatePanel
+          state={chatState.backendState}
+          userId={userId}
+          sessionId={sessionId}
+          onExport={exportSession}
+          onExit={researcherMode.exit}
+        />
+      )}
+      {/* Screen reader announcements of replies */}
+      <div className="sr-only" aria-live="polite" aria-atomic="true">
+        {isLoading ? t("chat.replying") : announcement}
+      </div>
       <div className="max-w-6xl p-1 mx-auto flex flex-col h-screen">
         <div className="flex-1 overflow-y-auto " id="messages-container">
           {/* Header Section */}
@@ -438,63 +867,129 @@ export default function Chat() {
                 <div className="flex items-center space-x-2">
                   <TrendingUp className="w-4 h-4 text-green-400" />
                   <span className="text-sm text-gray-400">
-                    {latestScores.length} traits assessed
+                    {t("chat.traitsAssessed", { count: latestScores.length })}
                   </span>
                 </div>
               )}
+              <div className="ml-auto flex items-center space-x-2">
+                <LocaleSwitcher />
+                {/* Start a fresh session, only offered once there is something to lose */}
+                {chatState.messages.length > 0 && (
+                  <Button
+                    onClick={startOver}
+                    disabled={
+                      isLoading || isGeneratingPersona || isStartingSession
+                    }
+                    variant="ghost"
+                    size="sm"
+                    className="text-gray-400 hover:text-white"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    {t("chat.startOver")}
+                  </Button>
+                )}
+              </div>
             </div>
 
+            {startFailed && (
+              <div
+                role="alert"
+                className="mt-3 flex items-center justify-between gap-3 rounded-md border border-red-700 bg-red-900/40 p-3 text-sm text-red-200"
+              >
+                <span>{t("chat.startFailed")}</span>
+                <Button
+                  onClick={startSession}
+                  disabled={isStartingSession}
+                  variant="outline"
+                  size="sm"
+                  className="border-red-600 bg-transparent text-red-200 hover:bg-red-800 hover:text-white"
+                >
+                  {t("chat.retry")}
+                </Button>
+              </div>
+            )}
+
+            {consentFailed && (
+              <div
+                role="alert"
+                className="mt-3 flex items-center justify-between gap-3 rounded-md border border-red-700 bg-red-900/40 p-3 text-sm text-red-200"
+              >
+                <span>{t("chat.consentFailed")}</span>
+                <Button
+                  onClick={() => recordSessionConsent(consentFailed)}
+                  variant="outline"
+                  size="sm"
+                  className="border-red-600 bg-transparent text-red-200 hover:bg-red-800 hover:text-white"
+                >
+                  {t("chat.retry")}
+                </Button>
+              </div>
+            )}
+
             <div className="bg-gray-900 text-white p-4 rounded-md shadow-md space-y-4 border border-gray-700 max-w-6xl mx-auto w-full">
               {/* Header */}
               <div className="flex items-center space-x-2">
                 <span className="text-blue-400 text-xl">🧠</span>
                 <h1 className="text-lg font-semibold">
-                  Welcome! Thanks for your consent to be a part of this study.
+                  {t("chat.welcomeTitle")}
                 </h1>
               </div>
 
               {/* Intro */}
               <p className="text-gray-300 text-s leading-snug">
-                We have designed this chatbot to engage with you through a few
-                quick interactions to explore your money use, preferences, and
-                decision styles. While you enjoy this chat, you’ll discover your{" "}
-                <span className="font-semibold text-blue-400">
-                  financial persona
-                </span>{" "}
-                towards the end.
+                {rich("chat.welcomeIntro", {
+                  persona: (
+                    <span className="font-semibold text-blue-400">
+                      {t("chat.welcomePersona")}
+                    </span>
+                  ),
+                })}
                 <br />
                 <span className="font-medium text-blue-500">
-                  We also request you to fill in a small feedback form at the
-                  end of the conversation to support further efforts in the
-                  study. Thank You.
+                  {t("chat.welcomeFeedback")}
                 </span>
               </p>
 
               {/* Instructions */}
               <div className="bg-gray-800 p-3 rounded border border-gray-700">
                 <h2 className="text-s font-semibold text-red-400 flex items-center mb-1">
-                  📌 Instructions
+                  {t("chat.instructionsTitle")}
                 </h2>
                 <p className="text-gray-300 text-xs leading-snug">
-                  After your traits get assessed, you can click on{" "}
-                  <span className="font-medium text-red-400">
-                    "Generate Persona"
-                  </span>{" "}
-                  to end the conversation. Note that once you click on it, you
-                  can not continue to chat.
+                  {rich("chat.instructionsPersona", {
+                    button: (
+                      <span className="font-medium text-red-400">
+                        &quot;{t("chat.generatePersona")}&quot;
+                      </span>
+                    ),
+                  })}
                   <br />
-                  If at any point you wish to not continue, simply type{" "}
-                  <span className="font-medium text-red-400">
-                    "end"
-                  </span> or{" "}
-                  <span className="font-medium text-red-400">"quit"</span> to
-                  terminate.
+                  {rich("chat.instructionsQuit", {
+                    end: (
+                      <span className="font-medium text-red-400">
+                        &quot;end&quot;
+                      </span>
+                    ),
+                    quit: (
+                      <span className="font-medium text-red-400">
+                        &quot;quit&quot;
+                      </span>
+                    ),
+                  })}
                   <br />
-                  If at any point chatbot displays error please{" "}
-                  <span className="font-medium text-red-400">
-                    enter your last input
-                  </span>{" "}
-                  again.
+                  {rich("chat.instructionsCommands", {
+                    help: (
+                      <span className="font-medium text-red-400">/help</span>
+                    ),
+                  })}
+                  <br />
+                  {rich("chat.instructionsRetry", {
+                    retry: (
+                      <span className="font-medium text-red-400">
+                        {t("chat.retry")}
+                      </span>
+                    ),
+                  })}
                 </p>
               </div>
             </div>
@@ -502,7 +997,13 @@ export default function Chat() {
 
           {/* Trait Scores Display Section */}
           {latestScores.length > 0 && (
-            <div className="border-b border-gray-700 p-4">
+            <div className="border-b border-gray-700 p-4 flex flex-col sm:flex-row items-center gap-4">
+              <TraitRadarChart
+                traits={traitRegistry.traits}
+                scores={latestScores}
+                size={260}
+                className="flex-shrink-0"
+              />
               <div className="flex flex-wrap gap-2">
                 {latestScores.map((trait, index) => (
                   <Badge
@@ -511,11 +1012,12 @@ export default function Chat() {
                     className="bg-gray-800 text-gray-200 hover:bg-gray-700"
                   >
                     {getTraitDisplayName(trait.trait)}: {trait.score.toFixed(1)}
-                    /5
+                    /{getTraitScaleMax(trait.trait).score}
                     {/* Show confidence level if available */}
                     {trait.confidence && (
                       <span className="ml-1 text-xs opacity-70">
-                        ({trait.confidence.toFixed(1)}/10)
+                        ({trait.confidence.toFixed(1)}/
+                        {getTraitScaleMax(trait.trait).confidence})
                       </span>
                     )}
                   </Badge>
@@ -524,36 +1026,54 @@ export default function Chat() {
             </div>
           )}
 
+          {/* Score timeline, collapsed by default */}
+          {latestScores.length > 0 && (
+            <details className="border-b border-gray-700 p-4">
+              <summary className="cursor-pointer text-sm text-gray-400 hover:text-white">
+                {t("chat.scoreTimeline")}
+              </summary>
+              <div className="mt-3">
+                <TraitTimeline
+                  traitData={chatState.traitData}
+                  traits={traitRegistry.traits}
+                />
+              </div>
+            </details>
+          )}
+
           {/* Messages Section */}
-          <div className="flex-1 p-4 space-y-4 pb-32">
+          <section
+            className="flex-1 p-4 space-y-4 pb-32"
+            aria-label={t("chat.messages")}
+          >
             {/* Welcome message when no messages exist */}
             {chatState.messages.length === 0 && (
               <div className="text-center text-gray-400 mt-8">
                 <Brain className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                <p className="text-lg mb-2">Welcome to Financial Assessment</p>
-                <p className="text-sm">
-                  Start a conversation to begin your financial trait assessment.
-                  You can start with a simple "Hi".
-                </p>
+                <p className="text-lg mb-2">{t("chat.emptyTitle")}</p>
+                <p className="text-sm">{t("chat.emptyHint")}</p>
               </div>
             )}
 
             {/* Render all chat messages */}
             {chatState.messages.map((message, index) => {
-              // Get trait assessments that were added after this message
+              // The turn of a user message ends with the next user message
+              const nextUserMessage = chatState.messages
+                .slice(index + 1)
+                .find((m) => m.type === "user");
+              // Get trait assessments that were added during this message's turn
               const messageTraitAssessments = chatState.traitData.filter(
                 (trait) => {
                   // Show assessments that have data and were created after this message
                   return (
                     trait.timestamp &&
                     trait.timestamp > message.timestamp &&
+                    (!nextUserMessage ||
+                      trait.timestamp < nextUserMessage.timestamp) &&
                     (trait.sentence ||
                       trait.score !== undefined ||
                       trait.rationale) &&
-                    // Only show for the most recent user message or if this is not the last message
-                    message.type === "user" &&
-                    (index === chatState.messages.length - 2 || // Second to last (user message before AI response)
-                      index === chatState.messages.length - 1) // Or last message
+                    message.type === "user"
                   );
                 }
               );
@@ -579,15 +1099,123 @@ export default function Chat() {
                         message.type === "user" ? "order-first" : ""
                       }`}
                     >
-                      <Card
-                        className={`p-4 ${
-                          message.type === "user"
-                            ? "bg-blue-600 text-white ml-auto"
-                            : "bg-gray-800 text-gray-100"
-                        }`}
-                      >
-                        <p className="whitespace-pre-wrap">{message.content}</p>
-                      </Card>
+                      {editing?.id === message.id ? (
+                        // Inline editor replacing the bubble, Escape cancels
+                        <form
+                          onSubmit={resendEditedMessage}
+                          onKeyDown={(e) => {
+                            if (e.key === "Escape") setEditing(null);
+                          }}
+                          className="w-[min(48rem,80vw)] space-y-2"
+                        >
+                          <MessageComposer
+                            value={editing.text}
+                            onChange={(text) =>
+                              setEditing({ ...editing, text })
+                            }
+                            label={t("chat.editLabel")}
+                            autoFocus
+                          />
+                          <div className="flex justify-end space-x-2">
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEditing(null)}
+                              className="text-gray-300 hover:text-white"
+                            >
+                              {t("chat.cancelEdit")}
+                            </Button>
+                            <Button
+                              type="submit"
+                              size="sm"
+                              disabled={!editing.text.trim()}
+                              className="bg-blue-600 hover:bg-blue-700 text-white"
+                            >
+                              {t("chat.resend")}
+                            </Button>
+                          </div>
+                        </form>
+                      ) : (
+                        <Card
+                          className={`p-4 ${
+                            message.type === "user"
+                              ? "bg-blue-600 text-white ml-auto"
+                              : "bg-gray-800 text-gray-100"
+                          }`}
+                        >
+                          <p className="whitespace-pre-wrap">
+                            {/* Who said it, the bubble side only shows it visually */}
+                            <span className="sr-only">
+                              {message.type === "user"
+                                ? t("chat.you")
+                                : t("chat.assistant")}
+                              :{" "}
+                            </span>
+                            {message.content}
+                          </p>
+                        </Card>
+                      )}
+
+                      {/* Only the latest answered message can be changed */}
+                      {editing?.id !== message.id &&
+                        message.type === "user" &&
+                        (canEditMessage(message) || message.replaces) && (
+                          <div className="mt-1 flex items-center justify-end space-x-2 text-xs text-gray-400">
+                            {message.replaces && (
+                              <span>{t("chat.edited")}</span>
+                            )}
+                            {canEditMessage(message) && (
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  setEditing({
+                                    id: message.id,
+                                    text: message.content,
+                                  })
+                                }
+                                className="inline-flex items-center underline hover:text-white"
+                              >
+                                <Pencil
+                                  className="w-3 h-3 mr-1"
+                                  aria-hidden="true"
+                                />
+                                {t("chat.edit")}
+                              </button>
+                            )}
+                          </div>
+                        )}
+
+                      {/* Delivery status of user messages */}
+                      {message.type === "user" && message.status === "queued" && (
+                        <p className="mt-1 text-right text-xs text-gray-400">
+                          {isOnline ? t("chat.sending") : t("chat.offline")}
+                        </p>
+                      )}
+                      {message.type === "user" &&
+                        message.status === "failed" && (
+                          <div
+                            className="mt-1 flex items-center justify-end space-x-2 text-xs text-red-400"
+                            title={message.error}
+                          >
+                            {message.id === lastUserMessageId ? (
+                              <>
+                                <span>{t("chat.failed")}</span>
+                                <button
+                                  type="button"
+                                  onClick={() => retryMessage(message)}
+                                  disabled={isLoading}
+                                  className="inline-flex items-center font-semibold underline hover:text-red-300 disabled:opacity-50"
+                                >
+                                  <RotateCcw className="w-3 h-3 mr-1" />
+                                  {t("chat.retry")}
+                                </button>
+                              </>
+                            ) : (
+                              <span>{t("chat.notSent")}</span>
+                            )}
+                          </div>
+                        )}
                     </div>
 
                     {/* User avatar */}
@@ -598,10 +1226,11 @@ export default function Chat() {
                     )}
                   </div>
 
-                  {/* Show trait assessments after user messages */}
-                  {message.type === "user" &&
+                  {/* Show trait assessments after user messages, to researchers only */}
+                  {researcherMode.enabled &&
+                    message.type === "user" &&
                     messageTraitAssessments.length > 0 && (
-                      <div className="space-y-3" style={{ display: "none" }}>
+                      <div className="space-y-3">
                         {messageTraitAssessments.map((trait, traitIndex) => (
                           <div
                             key={`${message.id}-assessment-${traitIndex}`}
@@ -632,7 +1261,8 @@ export default function Chat() {
                                           variant="secondary"
                                           className="bg-green-800 text-green-200"
                                         >
-                                          Score: {trait.score}/5
+                                          Score: {trait.score}/
+                                          {getTraitScaleMax(trait.trait).score}
                                         </Badge>
                                       )}
                                       {/* Show confidence if available */}
@@ -641,7 +1271,11 @@ export default function Chat() {
                                           variant="secondary"
                                           className="bg-green-800 text-green-200"
                                         >
-                                          Confidence: {trait.confidence}/10
+                                          Confidence: {trait.confidence}/
+                                          {
+                                            getTraitScaleMax(trait.trait)
+                                              .confidence
+                                          }
                                         </Badge>
                                       )}
                                     </div>
@@ -684,11 +1318,13 @@ export default function Chat() {
                                               )
                                             : "N/A"}
                                         </span>
-                                        {chatState.currentIteration !==
+                                        {(trait.iteration ??
+                                          chatState.currentIteration) !==
                                           undefined && (
                                           <span className="ml-2">
                                             • Iteration:{" "}
-                                            {chatState.currentIteration}
+                                            {trait.iteration ??
+                                              chatState.currentIteration}
                                           </span>
                                         )}
                                       </p>
@@ -705,8 +1341,8 @@ export default function Chat() {
               );
             })}
 
-            {/* Loading indicator */}
-            {isLoading && (
+            {/* Loading indicator, replaced by the AI bubble once tokens stream in */}
+            {isLoading && !isStreaming && (
               <div className="flex items-start space-x-3">
                 <div className="w-8 h-8 rounded-full bg-blue-600 flex items-center justify-center">
                   <Bot className="w-4 h-4" />
@@ -727,27 +1363,47 @@ export default function Chat() {
                 </Card>
               </div>
             )}
-          </div>
+          </section>
         </div>
 
         {/* Input Section */}
         {/* Input / Thank You Section */}
         <div className="border-t border-gray-700 p-4">
+          {!isTerminated && shouldContinue && commandNotice && (
+            <CommandNotice
+              notice={commandNotice}
+              assessedTraits={latestScores.map(({ trait }) =>
+                getTraitDisplayName(trait)
+              )}
+              totalTraits={traitRegistry.traits.length}
+              minTraitsForPersona={traitRegistry.minTraitsForPersona}
+              onDismiss={() => setCommandNotice(null)}
+            />
+          )}
           {!isTerminated && shouldContinue ? (
-            <form onSubmit={handleSubmit} className="flex space-x-2">
-              <Input
+            <form
+              onSubmit={handleSubmit}
+              className="flex items-start space-x-2"
+            >
+              {/* Stays editable while a reply loads, only sending waits */}
+              <MessageComposer
                 value={input}
-                onChange={(e) => setInput(e.target.value)}
-                placeholder="Type your message..."
-                className="flex-1 bg-gray-800 border-gray-600 text-white placeholder-gray-400 focus:border-blue-500"
-                disabled={isLoading || !shouldContinue || isTerminated}
+                onChange={setInput}
+                disabled={!shouldContinue || isTerminated}
               />
               <Button
                 type="submit"
-                disabled={isLoading || !input.trim() || !shouldContinue}
+                disabled={
+                  isLoading ||
+                  !input.trim() ||
+                  !shouldContinue ||
+                  !sessionId ||
+                  isStartingSession
+                }
                 className="bg-blue-600 hover:bg-blue-700 text-white"
+                aria-label={t("chat.send")}
               >
-                <Send className="w-4 h-4" />
+                <Send className="w-4 h-4" aria-hidden="true" />
               </Button>
               <button
                 type="button"
@@ -763,13 +1419,13 @@ export default function Chat() {
                     : "bg-gray-500 text-gray-300 cursor-not-allowed"
                 }`}
               >
-                Next →
+                {t("common.next")}
               </button>
             </form>
           ) : (
             <div className="flex items-center justify-between">
               <h1 className="text-lg font-semibold text-white">
-                🎉 Thank You for Trying our Chatbot!!
+                {t("common.thankYou")}
               </h1>
               <button
                 type="button"
@@ -780,38 +1436,78 @@ export default function Chat() {
                 }
                 className="px-5 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-semibold transition"
               >
-                Next →
+                {t("common.next")}
               </button>
             </div>
           )}
         </div>
       </div>
 
-      {/* Floating Generate Persona Button */}
-      {chatState.backendState && (
+      {/* Floating Generate Persona Button, reopens the persona once generated */}
+      {personaData ? (
         <Button
-          onClick={generatePersona}
-          disabled={isGeneratingPersona || latestScores.length < 6}
+          ref={personaButtonRef}
+          onClick={() => setShowPersonaPopup(true)}
+          aria-haspopup="dialog"
           className="fixed bottom-20 right-6 bg-purple-600 hover:bg-purple-700 text-white rounded-full p-4 shadow-lg z-50"
         >
-          {isGeneratingPersona ? (
-            <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin" />
-          ) : (
-            <span>Generate Persona</span>
-          )}
+          <span>{t("chat.viewPersona")}</span>
         </Button>
+      ) : (
+        chatState.backendState && (
+          <Button
+            ref={personaButtonRef}
+            onClick={generatePersona}
+            aria-busy={isGeneratingPersona}
+            disabled={
+              isGeneratingPersona ||
+              latestScores.length < traitRegistry.minTraitsForPersona
+            }
+            className="fixed bottom-20 right-6 bg-purple-600 hover:bg-purple-700 text-white rounded-full p-4 shadow-lg z-50"
+          >
+            {isGeneratingPersona ? (
+              <>
+                <div
+                  className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"
+                  aria-hidden="true"
+                />
+                <span className="sr-only">{t("persona.generating")}</span>
+              </>
+            ) : (
+              <span>{t("chat.generatePersona")}</span>
+            )}
+          </Button>
+        )
       )}
 
       {/* Persona Popup Modal */}
       {showPersonaPopup && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-gray-800 rounded-lg max-w-2xl w-full max-h-[80vh] overflow-hidden">
+        <div
+          className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+          onClick={(e) => {
+            if (e.target === e.currentTarget) setShowPersonaPopup(false);
+          }}
+        >
+          <div
+            ref={personaDialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="persona-dialog-title"
+            tabIndex={-1}
+            className="bg-gray-800 rounded-lg max-w-2xl w-full max-h-[80vh] overflow-hidden"
+          >
             {/* Popup Header */}
             <div className="flex items-center justify-between p-4 border-b border-gray-700">
               <div className="flex items-center space-x-2">
-                <UserCircle className="w-6 h-6 text-purple-400" />
-                <h2 className="text-xl font-semibold text-white">
-                  Financial Persona
+                <UserCircle
+                  className="w-6 h-6 text-purple-400"
+                  aria-hidden="true"
+                />
+                <h2
+                  id="persona-dialog-title"
+                  className="text-xl font-semibold text-white"
+                >
+                  {t("persona.title")}
                 </h2>
               </div>
               {/* Displaying Persona Label */}
@@ -828,8 +1524,9 @@ export default function Chat() {
                 variant="ghost"
                 size="sm"
                 className="text-gray-400 hover:text-white"
+                aria-label={t("persona.close")}
               >
-                <X className="w-5 h-5" />
+                <X className="w-5 h-5" aria-hidden="true" />
               </Button>
             </div>
 
@@ -837,27 +1534,80 @@ export default function Chat() {
             <div className="p-4 overflow-y-auto max-h-[60vh]">
               {personaData ? (
                 <div className="space-y-4">
-                  <Card className="bg-gray-900/50 border-gray-700 p-4">
-                    <pre className="whitespace-pre-wrap text-gray-200 text-sm leading-relaxed">
-                      {personaData}
-                    </pre>
-                  </Card>
+                  {latestScores.length > 0 && (
+                    <TraitRadarChart
+                      traits={traitRegistry.traits}
+                      scores={latestScores}
+                      className="mx-auto"
+                    />
+                  )}
+                  <PersonaReport
+                    report={personaData}
+                    getTraitLabel={getTraitDisplayName}
+                  />
+                  {chatState.traitData.length > 0 && (
+                    <details className="rounded-lg border border-gray-700 p-4">
+                      <summary className="cursor-pointer text-sm text-gray-400 hover:text-white">
+                        {t("persona.evolution")}
+                      </summary>
+                      <div className="mt-3">
+                        <TraitTimeline
+                          traitData={chatState.traitData}
+                          traits={traitRegistry.traits}
+                        />
+                      </div>
+                    </details>
+                  )}
                 </div>
               ) : (
                 <div className="text-center text-gray-400 py-8">
                   <UserCircle className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                  <p>No persona data available</p>
+                  <p>{t("persona.empty")}</p>
                 </div>
               )}
             </div>
 
             {/* Popup Footer */}
-            <div className="p-4 border-t border-gray-700 flex justify-end">
+            <div className="p-4 border-t border-gray-700 flex items-center justify-between">
+              {/* Export actions, everything is generated in the browser */}
+              <div className="flex flex-wrap gap-2">
+                {personaData && (
+                  <>
+                    <Button
+                      onClick={() => exportReport("pdf")}
+                      variant="outline"
+                      size="sm"
+                      className="border-gray-600 bg-transparent text-gray-200 hover:bg-gray-700 hover:text-white"
+                    >
+                      <Printer className="w-4 h-4" />
+                      {t("persona.exportPdf")}
+                    </Button>
+                    <Button
+                      onClick={() => exportReport("markdown")}
+                      variant="outline"
+                      size="sm"
+                      className="border-gray-600 bg-transparent text-gray-200 hover:bg-gray-700 hover:text-white"
+                    >
+                      <Download className="w-4 h-4" />
+                      {t("persona.exportMarkdown")}
+                    </Button>
+                    <Button
+                      onClick={() => exportReport("json")}
+                      variant="outline"
+                      size="sm"
+                      className="border-gray-600 bg-transparent text-gray-200 hover:bg-gray-700 hover:text-white"
+                    >
+                      <Download className="w-4 h-4" />
+                      {t("persona.exportJson")}
+                    </Button>
+                  </>
+                )}
+              </div>
               <Button
                 onClick={() => setShowPersonaPopup(false)}
                 className="bg-purple-600 hover:bg-purple-700 text-white"
               >
-                Close
+                {t("persona.close")}
               </Button>
             </div>
           </div>
@@ -1,48 +1,35 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useSearchParams } from "next/navigation";
 import { Suspense } from "react";
-
-const chatbotQuestions = [
-  "The chatbot’s personality was realistic and engaging",
-  "The chatbot seemed too robotic",
-  "The chatbot was welcoming during initial setup",
-  "The chatbot seemed very unfriendly",
-  "The chatbot explained its scope and purpose well",
-  "The chatbot gave no indication as to its purpose",
-  "The chatbot was easy to navigate",
-  "It would be easy to get confused when using the chatbot",
-  "The chatbot understood me well",
-  "The chatbot failed to recognize a lot of my inputs",
-  "Chatbot responses were useful, appropriate and informative",
-  "Chatbot responses were irrelevant",
-  "The chatbot coped well with any errors or mistakes",
-  "The chatbot seemed unable to handle any errors",
-  "The chatbot was very easy to use",
-  "The chatbot was very complex",
-];
-
-const domainQuestions = [
-  "I was able to understand the questions generated by the chatbot",
-  "I was able to answer the questions easily",
-  "I was able to understand the output generated by the chatbot",
-  "The questions asked during the conversation made me think and reflect about my financial awareness",
-  "The questions asked were relevant in terms of how I think and deal with matters of money",
-  "I thought that the questions were relatable to my context of financial decisions",
-  "The profile generated reflects my persona very well",
-  "I agree with the list of strengths generated",
-  "I agree to the points listed under 'opportunities to improve'",
-  "Any other ideas or reflections from your experience? Please specify",
-];
-
-const options = [
-  "Strongly Disagree",
-  "Disagree",
-  "Neutral",
-  "Agree",
-  "Strongly Agree",
-];
+import * as api from "@/lib/api";
+import * as chatStorage from "@/lib/chat-storage";
+import {
+  buildSessionExport,
+  downloadSessionExport,
+} from "@/lib/session-export";
+import { useResearcherMode } from "@/hooks/use-researcher-mode";
+import { useTraitRegistry } from "@/hooks/use-trait-registry";
+import { useQuestionnaire } from "@/hooks/use-questionnaire";
+import { useLocale } from "@/hooks/use-locale";
+import { LocaleSwitcher } from "@/components/locale-switcher";
+import { LOCALE_TAGS } from "@/lib/i18n";
+import {
+  QuestionnaireQuestion,
+  questionElementId,
+} from "@/components/questionnaire-question";
+import { scoreCuq } from "@/lib/cuq";
+import { assessResponseQuality } from "@/lib/response-quality";
+import {
+  type Answer,
+  type Answers,
+  answeredQuestions,
+  isQuestionVisible,
+  missingAnswers,
+  toFeedbackResponses,
+  visibleQuestions,
+} from "@/lib/questionnaire";
 
 export default function FeedbackForm() {
   return (
@@ -53,27 +40,67 @@ export default function FeedbackForm() {
 }
 
 function FeedbackFormWrapper() {
-  const [formData, setFormData] = useState<{ [key: string]: string }>({});
+  // Answers keyed by question id
+  const [formData, setFormData] = useState<Answers>({});
   const [message, setMessage] = useState("");
   const [loading, setLoading] = useState(false);
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [timestamp, setTimestamp] = useState("");
+  // When the form was shown, for the completion time check
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  // Autosave starts once a saved draft had the chance to be restored
+  const [draftLoaded, setDraftLoaded] = useState(false);
+  const [draftRestored, setDraftRestored] = useState(false);
+  // Highlights unanswered questions after a failed submit
+  const [showMissing, setShowMissing] = useState(false);
+  // Answers wiped by "Clear Responses", until the participant answers again
+  const [clearedAnswers, setClearedAnswers] = useState<Answers | null>(null);
 
   const searchParams = useSearchParams();
   const userId = searchParams.get("user_id");
   const sessionId = searchParams.get("session_id");
+  const researcherMode = useResearcherMode();
+  const traitRegistry = useTraitRegistry();
+  const questionnaire = useQuestionnaire();
+  const { locale, t, rich } = useLocale();
+  const translation = questionnaire?.translations?.[locale];
+
+  // Restore the answers autosaved for this session, if any
+  useEffect(() => {
+    if (!questionnaire || draftLoaded) return;
+    const draft = sessionId
+      ? chatStorage.loadFeedbackDraft(sessionId, questionnaire)
+      : null;
+    if (draft && Object.keys(draft.answers).length > 0) {
+      setFormData(draft.answers);
+      setDraftRestored(true);
+    }
+    setStartedAt(draft?.startedAt ?? Date.now());
+    setDraftLoaded(true);
+  }, [questionnaire, sessionId, draftLoaded]);
+
+  // Autosave every change until the form is submitted
+  useEffect(() => {
+    if (!questionnaire || !draftLoaded || !sessionId || isSubmitted) return;
+    chatStorage.saveFeedbackDraft(sessionId, {
+      questionnaire: { id: questionnaire.id, version: questionnaire.version },
+      answers: formData,
+      startedAt: startedAt ?? Date.now(),
+    });
+  }, [questionnaire, draftLoaded, sessionId, isSubmitted, formData, startedAt]);
 
   console.log("User ID:", userId);
   console.log("Session ID:", sessionId);
 
-  const handleChange = (question: string, value: string) => {
+  const handleChange = (question: string, value: Answer) => {
+    setClearedAnswers(null);
     setFormData((prev) => ({
       ...prev,
       [question]: value,
     }));
   };
 
-  const istTimestamp = new Date().toLocaleString("en-IN", {
+  const istTimestamp = new Date().toLocaleString(LOCALE_TAGS[locale], {
     timeZone: "Asia/Kolkata",
     year: "numeric",
     month: "2-digit",
@@ -85,40 +112,66 @@ function FeedbackFormWrapper() {
 
   // console.log("IST Timestamp:", istTimestamp);
 
-  // Production changes
-  const API_BASE = process.env.NEXT_PUBLIC_API_URL;
-  //   const API_BASE=  "http://localhost:8000"
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!questionnaire) return;
     console.log("Feedback Submitted:", formData);
 
+    // Checked here rather than by the browser so every unanswered question
+    // can be highlighted at once
+    if (missingAnswers(questionnaire, formData).length > 0) {
+      setShowMissing(true);
+      return;
+    }
+    setShowMissing(false);
+
+    const responses = toFeedbackResponses(questionnaire, formData);
+    const cuq = scoreCuq(questionnaire, formData) ?? undefined;
+    const quality = assessResponseQuality(
+      questionnaire,
+      formData,
+      (Date.now() - (startedAt ?? Date.now())) / 1000
+    );
+    setLoading(true);
     try {
-      const res = await fetch(`${API_BASE}/feedback`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          responses: formData,
-          user_id: userId,
-          session_id: sessionId,
-        }),
-      });
-      console.log("Response:", res);
-
-      if (res.ok) {
-        setTimestamp(istTimestamp);
-        console.log("Timestamp set:", istTimestamp);
-        setMessage(`✅ Feedback submitted successfully! User Id: "${userId}"`);
-        setIsSubmitted(true);
-        setFormData({});
-      } else {
-        setMessage("❌ Failed to submit feedback");
+      await api.submitFeedback(
+        { user_id: userId, session_id: sessionId },
+        {
+          responses,
+          questionnaire: {
+            id: questionnaire.id,
+            version: questionnaire.version,
+          },
+          cuq_score: cuq?.score,
+          quality: {
+            flags: quality.flags,
+            straight_lining: quality.straightLining,
+            inconsistent_pairs: quality.inconsistentPairs,
+            duration_seconds: quality.durationSeconds,
+          },
+        }
+      );
+
+      // Kept with the stored chat session for researcher exports
+      if (sessionId) {
+        chatStorage.saveFeedback(sessionId, { responses, cuq, quality });
+        chatStorage.clearFeedbackDraft(sessionId);
       }
+
+      setTimestamp(istTimestamp);
+      console.log("Timestamp set:", istTimestamp);
+      setMessage(t("feedback.success", { userId: userId ?? "" }));
+      setIsSubmitted(true);
+      setFormData({});
+      setClearedAnswers(null);
     } catch (error) {
       console.error(error);
-      setMessage("⚠️ Error while submitting feedback");
+      // A non-2xx answer from the server vs. not reaching it at all
+      if (error instanceof api.ApiError && error.status !== undefined) {
+        setMessage(t("feedback.failed"));
+      } else {
+        setMessage(t("feedback.error"));
+      }
     } finally {
       setLoading(false);
     }
@@ -126,86 +179,184 @@ function FeedbackFormWrapper() {
     // 🔹 You can send this to FastAPI with fetch/axios
   };
 
+  // Shown questions are numbered consecutively across sections
+  const numbers: Record<string, number> = {};
+  if (questionnaire) {
+    visibleQuestions(questionnaire, formData).forEach((q, index) => {
+      numbers[q.id] = index + 1;
+    });
+  }
+
+  const missing = questionnaire ? missingAnswers(questionnaire, formData) : [];
+  const missingIds = new Set(missing.map((q) => q.id));
+  const answeredCount = questionnaire
+    ? answeredQuestions(questionnaire, formData).length
+    : 0;
+  const totalCount = Object.keys(numbers).length;
+
+  /**
+   * Scrolls to the first required question without an answer and focuses
+   * its first option
+   */
+  const jumpToFirstUnanswered = () => {
+    if (missing.length === 0) return;
+    const element = document.getElementById(questionElementId(missing[0].id));
+    element?.scrollIntoView({ behavior: "smooth", block: "center" });
+    element
+      ?.querySelector<HTMLElement>("input, textarea")
+      ?.focus({ preventScroll: true });
+  };
+
   const handleClear = () => {
+    if (Object.keys(formData).length === 0) return;
+    setClearedAnswers(formData);
     setFormData({});
+    setShowMissing(false);
+  };
+
+  const handleUndoClear = () => {
+    if (!clearedAnswers) return;
+    setFormData(clearedAnswers);
+    setClearedAnswers(null);
+  };
+
+  /**
+   * Downloads the stored session of this browser, including the feedback
+   * just submitted, for researchers
+   */
+  const exportSession = (format: "json" | "csv") => {
+    const stored = sessionId ? chatStorage.loadSession(sessionId) : null;
+    if (!stored) {
+      alert("This session is not stored in this browser.");
+      return;
+    }
+    downloadSessionExport(buildSessionExport(stored, traitRegistry), format);
   };
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-900 text-gray-100 p-6">
       <div className="max-w-3xl w-full bg-gray-800 rounded-2xl shadow-lg p-8">
-        <h1 className="text-2xl font-bold mb-6 text-center">Feedback Form</h1>
-        <form onSubmit={handleSubmit} className="space-y-8">
-          {/* Chatbot Usability Section */}
-          <div>
-            {/* <h2 className="text-xl font-semibold mb-8">
-              Chatbot Usability Questions
-            </h2> */}
-            {chatbotQuestions.map((q, idx) => (
-              <div key={idx} className="mb-8">
-                <p className="mb-2 font-medium">
-                  {idx + 1}. {q}
-                </p>
-                <div className="flex space-x-6">
-                  {options.map((opt) => (
-                    <label key={opt} className="flex items-center space-x-2">
-                      <input
-                        type="radio"
-                        name={q}
-                        value={opt}
-                        checked={formData[q] === opt}
-                        onChange={() => handleChange(q, opt)}
-                        className="form-radio text-blue-600"
-                        // Production changes
-                        required
+        <div className="flex justify-end mb-2">
+          <LocaleSwitcher />
+        </div>
+        <h1 className="text-2xl font-bold mb-6 text-center">
+          {translation?.title ?? questionnaire?.title ?? t("feedback.title")}
+        </h1>
+        {/* Progress, kept in view while scrolling through the questions */}
+        {questionnaire && !isSubmitted && (
+          <div className="sticky top-0 z-10 -mx-8 mb-6 px-8 py-3 bg-gray-800 border-b border-gray-700">
+            <div className="flex justify-between text-sm text-gray-300 mb-1">
+              <span>
+                {t("feedback.progress", {
+                  answered: answeredCount,
+                  total: totalCount,
+                })}
+              </span>
+              {draftRestored && (
+                <span className="text-gray-400">{t("feedback.restored")}</span>
+              )}
+            </div>
+            <div
+              className="h-2 rounded-full bg-gray-700 overflow-hidden"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={totalCount}
+              aria-valuenow={answeredCount}
+              aria-label={t("feedback.progressLabel")}
+            >
+              <div
+                className="h-full bg-blue-600 transition-all"
+                style={{
+                  width: `${
+                    totalCount ? (answeredCount / totalCount) * 100 : 0
+                  }%`,
+                }}
+              />
+            </div>
+          </div>
+        )}
+        <form onSubmit={handleSubmit} className="space-y-8" noValidate>
+          {questionnaire ? (
+            questionnaire.sections.map((section) => {
+              const sectionText = {
+                ...section,
+                ...translation?.sections?.[section.id],
+              };
+              return (
+                <div key={section.id}>
+                  {sectionText.title && (
+                    <h2 className="text-xl font-semibold mb-2">
+                      {sectionText.title}
+                    </h2>
+                  )}
+                  {sectionText.description && (
+                    <p className="mb-6 text-gray-400">
+                      {sectionText.description}
+                    </p>
+                  )}
+                  {section.questions
+                    .filter((q) =>
+                      isQuestionVisible(questionnaire, q, formData)
+                    )
+                    .map((q) => (
+                      <QuestionnaireQuestion
+                        key={q.id}
+                        question={q}
+                        number={numbers[q.id]}
+                        scales={questionnaire.scales}
+                        translation={translation?.questions?.[q.id]}
+                        scaleLabels={translation?.scales}
+                        labels={{
+                          optional: t("feedback.optional"),
+                          missing: t("feedback.required"),
+                        }}
+                        value={formData[q.id]}
+                        onChange={(value) => handleChange(q.id, value)}
+                        missing={showMissing && missingIds.has(q.id)}
                       />
-                      <span>{opt}</span>
-                    </label>
-                  ))}
+                    ))}
                 </div>
-              </div>
-            ))}
-          </div>
+              );
+            })
+          ) : (
+            <p className="text-center text-gray-400">{t("common.loading")}</p>
+          )}
 
-          {/* Domain Related Section */}
-          <div>
-            {/* <h2 className="text-xl font-semibold mb-8">
-              Domain Related Questions
-            </h2> */}
-            {domainQuestions.map((q, idx) => (
-              <div key={idx} className="mb-8">
-                <p className="mb-2 font-medium">
-                  {chatbotQuestions.length + idx + 1}. {q}
-                </p>
-                {q.startsWith("Any other ideas") ? (
-                  <textarea
-                    className="w-full p-2 rounded-md bg-gray-800 border border-gray-600 text-white"
-                    rows={3}
-                    value={formData[q] || ""}
-                    onChange={(e) => handleChange(q, e.target.value)}
-                    placeholder="Write your response here..."
-                  />
-                ) : (
-                  <div className="flex space-x-6">
-                    {options.map((opt) => (
-                      <label key={opt} className="flex items-center space-x-2">
-                        <input
-                          type="radio"
-                          name={q}
-                          value={opt}
-                          checked={formData[q] === opt}
-                          onChange={() => handleChange(q, opt)}
-                          className="form-radio text-blue-600"
-                          // Production changes
-                          required
-                        />
-                        <span>{opt}</span>
-                      </label>
-                    ))}
-                  </div>
-                )}
-              </div>
-            ))}
-          </div>
+          {showMissing && missing.length > 0 && (
+            <div
+              role="alert"
+              className="flex items-center justify-between p-3 rounded-lg border border-amber-500/70 text-amber-300"
+            >
+              <span>
+                {missing.length === 1
+                  ? t("feedback.missingOne")
+                  : t("feedback.missing", { count: missing.length })}
+              </span>
+              <button
+                type="button"
+                onClick={jumpToFirstUnanswered}
+                className="px-3 py-1 rounded-md border border-amber-500/70 text-sm hover:bg-gray-700"
+              >
+                {t("feedback.jump")}
+              </button>
+            </div>
+          )}
+
+          {clearedAnswers && (
+            <div
+              role="status"
+              className="flex items-center justify-between p-3 rounded-lg border border-gray-600 text-gray-300"
+            >
+              <span>{t("feedback.cleared")}</span>
+              <button
+                type="button"
+                onClick={handleUndoClear}
+                className="px-3 py-1 rounded-md border border-gray-500 text-sm hover:bg-gray-700"
+              >
+                {t("feedback.undo")}
+              </button>
+            </div>
+          )}
 
           {/* Submit Button */}
           <div className="flex justify-between mt-6">
@@ -214,7 +365,7 @@ function FeedbackFormWrapper() {
               onClick={handleClear}
               className="px-6 py-2 bg-gray-500 hover:bg-gray-600 rounded-lg text-white font-semibold transition"
             >
-              Clear Responses
+              {t("feedback.clear")}
             </button>
 
             {/* Right side Submit Button */}
@@ -223,20 +374,44 @@ function FeedbackFormWrapper() {
               className="px-6 py-2 bg-blue-700 hover:bg-blue-800 
                                 rounded-lg text-white font-semibold transition
                                 disabled:bg-gray-500 disabled:cursor-not-allowed disabled:opacity-70"
-              disabled={isSubmitted}
+              disabled={isSubmitted || !questionnaire}
             >
-              {loading ? "Submitting..." : "Submit Feedback"}
+              {loading ? t("feedback.submitting") : t("feedback.submit")}
             </button>
           </div>
         </form>
         {message && (
-          <div>
+          <div role="status">
             <p className="mt-4 text-center text-lg font-medium">
-              {message} Submit Time: {timestamp}
+              {message} {t("feedback.submitTime", { time: timestamp })}
             </p>
             <p className="mt-4 text-center text-lg font-medium">
-              🎉 Thank You for Trying our Chatbot!!
+              {t("common.thankYou")}
             </p>
+            <p className="mt-2 text-center text-sm text-gray-400">
+              {rich("feedback.withdrawNote", {
+                link: (
+                  <a href="/withdraw" className="text-blue-400 hover:underline">
+                    {t("common.withdrawalPage")}
+                  </a>
+                ),
+              })}
+            </p>
+            {/* Researchers can take the whole session away for analysis */}
+            {researcherMode.enabled && isSubmitted && (
+              <div className="mt-4 flex justify-center space-x-3">
+                {(["json", "csv"] as const).map((format) => (
+                  <button
+                    key={format}
+                    type="button"
+                    onClick={() => exportSession(format)}
+                    className="px-4 py-2 rounded-lg border border-gray-600 text-sm text-gray-200 hover:bg-gray-700"
+                  >
+                    Export session {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -1,5 +1,8 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { cookies, headers } from "next/headers";
+import { LocaleProvider } from "@/components/locale-provider";
+import { LOCALE_COOKIE, negotiateLocale } from "@/lib/i18n";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -17,17 +20,23 @@ export const metadata: Metadata = {
   description: "Financial Assessment Chatbot",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // Rendered in the participant's language from the first paint
+  const locale = negotiateLocale(
+    (await cookies()).get(LOCALE_COOKIE)?.value,
+    (await headers()).get("accept-language")
+  );
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <LocaleProvider initialLocale={locale}>{children}</LocaleProvider>
       </body>
     </html>
   );
@@ -1,83 +1,137 @@
 "use client";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
+import * as api from "@/lib/api";
+import { CONSENT_VERSION, storeConsent } from "@/lib/consent";
+import { LocaleSwitcher } from "@/components/locale-switcher";
+import { useLocale } from "@/hooks/use-locale";
 
 export default function ConsentPage() {
   const router = useRouter();
+  const { locale, t, rich } = useLocale();
   const [consent, setConsent] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
 
-  const handleSubmit = (e: React.FormEvent) => {
+  /**
+   * Records the consent with the backend before opening the chatbot
+   * Every consent starts a new session: on a shared machine a session left
+   * in this browser belongs to an earlier participant
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (consent) {
-      router.push("/chatbot"); // go to chatbot page
+    if (!consent) return;
+
+    setIsSubmitting(true);
+    setError("");
+    try {
+      const ids = await api.startSession();
+      const consentedAt = new Date().toISOString();
+      await api.recordConsent(ids, {
+        consent_version: CONSENT_VERSION,
+        locale,
+        consented_at: consentedAt,
+      });
+      storeConsent({
+        version: CONSENT_VERSION,
+        locale,
+        consentedAt,
+        userId: ids.user_id,
+        sessionId: ids.session_id,
+      });
+
+      // Back to the page the middleware sent the participant away from
+      const next = new URLSearchParams(window.location.search).get("next");
+      router.push(
+        next?.startsWith("/") && !next.startsWith("//") ? next : "/chatbot"
+      );
+    } catch (err) {
+      console.error("Failed to record consent", err);
+      setError(t("consent.error"));
+      setIsSubmitting(false);
     }
   };
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-900 text-gray-100 p-6">
       <div className="max-w-3xl w-full bg-gray-800 rounded-2xl shadow-lg p-8">
+        <div className="flex justify-end mb-2">
+          <LocaleSwitcher />
+        </div>
         <h1 className="text-2xl font-bold mb-6 text-center">
-          Consent Form for Study Participation
+          {t("consent.title")}
         </h1>
 
         <div className="space-y-6 text-gray-300">
           <p>
-            You are invited to take part in a research study exploring{" "}
-            <span className="font-semibold">
-              financial persona discovery through chatbot interaction
-            </span>
-            . Participation is entirely voluntary. No personally identifiable
-            information (PII) will be collected. All responses will remain
-            anonymous, and data will be used solely for research purposes.
+            {rich("consent.intro", {
+              topic: (
+                <span className="font-semibold">{t("consent.topic")}</span>
+              ),
+            })}
           </p>
 
           <div>
             <h2 className="text-lg font-semibold mb-2">
-              Data Storage and Security:
+              {t("consent.storageHeading")}
             </h2>
             <ul className="list-disc list-inside space-y-1">
               <li>
-                <span className="font-semibold">Storage:</span> The data will be
-                stored securely on a password-protected machine of the primary
-                researcher.
+                <span className="font-semibold">
+                  {t("consent.storageLabel")}
+                </span>{" "}
+                {t("consent.storage")}
               </li>
               <li>
-                <span className="font-semibold">Access:</span> Only individuals
-                involved in the research project will have access to the data.
+                <span className="font-semibold">
+                  {t("consent.accessLabel")}
+                </span>{" "}
+                {t("consent.access")}
               </li>
               <li>
-                <span className="font-semibold">Retention:</span> The data will
-                be retained after the completion of the research project. Later
-                it will be made public for future research usage by the
-                community.
+                <span className="font-semibold">
+                  {t("consent.retentionLabel")}
+                </span>{" "}
+                {t("consent.retention")}
               </li>
             </ul>
           </div>
 
           <div>
-            <h2 className="text-lg font-semibold mb-2">Your Rights:</h2>
+            <h2 className="text-lg font-semibold mb-2">
+              {t("consent.rightsHeading")}
+            </h2>
             <ul className="list-disc list-inside space-y-1">
               <li>
-                <span className="font-semibold">Withdrawal of Consent:</span>{" "}
-                You have the right to withdraw your consent in the next 30 days
-                from collecting the data by mentioning your unique User ID which
-                will be mentioned in the end after submitting feedback. If you
-                withdraw your consent, we will cease using your data and will
-                delete it within 30 days.
+                <span className="font-semibold">
+                  {t("consent.withdrawalLabel")}
+                </span>{" "}
+                {rich("consent.withdrawal", {
+                  link: (
+                    <a
+                      href="/withdraw"
+                      className="text-blue-400 hover:underline"
+                    >
+                      {t("common.withdrawalPage")}
+                    </a>
+                  ),
+                })}
               </li>
             </ul>
           </div>
 
           <div>
-            <h2 className="text-lg font-semibold mb-2">Contact Information:</h2>
-            <p>
-              If you have any questions or concerns about this consent form or
-              the research project, please contact:
-            </p>
+            <h2 className="text-lg font-semibold mb-2">
+              {t("consent.contactHeading")}
+            </h2>
+            <p>{t("consent.contact")}</p>
             <p className="mt-2">
-              <span className="font-semibold">Name:</span> Mr. Rishabh Kushwah
+              <span className="font-semibold">{t("consent.nameLabel")}</span>{" "}
+              Mr. Rishabh Kushwah
               <br />
-              <span className="font-semibold">Email:</span>{" "}
+              <span className="font-semibold">
+                {t("consent.emailLabel")}
+              </span>{" "}
               <a className="text-blue-400 hover:underline">
                 rishabh.kushwah@tcs.com
               </a>
@@ -93,22 +147,23 @@ export default function ConsentPage() {
               onChange={() => setConsent(!consent)}
               className="w-4 h-4 text-blue-500 border-gray-600 rounded focus:ring-blue-500"
             />
-            <span>I consent to participate in this study.</span>
+            <span>{t("consent.agree")}</span>
           </label>
 
           <button
             type="submit"
-            disabled={!consent}
+            disabled={!consent || isSubmitting}
             className={`w-full py-2 px-4 rounded-lg shadow-md font-semibold transition 
               ${
-                consent
+                consent && !isSubmitting
                   ? "bg-blue-600 hover:bg-blue-700"
                   : "bg-gray-600 cursor-not-allowed"
               }
             `}
           >
-            Next → Chatbot
+            {isSubmitting ? t("consent.submitting") : t("consent.submit")}
           </button>
+          {error && <p className="text-center text-red-400">{error}</p>}
         </form>
       </div>
     </div>
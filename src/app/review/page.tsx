@@ -0,0 +1,333 @@
+"use client";
+
+import type React from "react";
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { PersonaReport } from "@/components/persona-report";
+import { SessionReplay } from "@/components/session-replay";
+import { TraitRadarChart } from "@/components/trait-radar-chart";
+import { useTraitRegistry } from "@/hooks/use-trait-registry";
+import {
+  type ReviewSession,
+  type TraitRange,
+  matchesTraitRanges,
+  parseSessionFile,
+} from "@/lib/review";
+import { getTraitLabel } from "@/lib/traits";
+import { FileUp, Trash2, X } from "lucide-react";
+
+/**
+ * Offline review console for researchers
+ * Loads session files exported from researcher mode and lets them be
+ * replayed, filtered by final trait scores and compared side by side.
+ * Everything stays in the browser, no backend is needed.
+ */
+export default function ReviewConsole() {
+  const traitRegistry = useTraitRegistry();
+  const [sessions, setSessions] = useState<ReviewSession[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+  // Unset bounds are kept as empty strings so the inputs stay controlled
+  const [ranges, setRanges] = useState<
+    Record<string, { min: string; max: string }>
+  >({});
+
+  /**
+   * Reads the chosen files, replacing sessions that were loaded before
+   * @param files - Files from the drop zone or the file picker
+   */
+  const loadFiles = async (files: FileList | null) => {
+    if (!files) return;
+
+    const loaded: ReviewSession[] = [];
+    const failed: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        loaded.push(parseSessionFile(file.name, await file.text()));
+      } catch (error) {
+        failed.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    setErrors(failed);
+    setSessions((prev) => [
+      ...prev.filter(
+        (s) => !loaded.some((l) => l.data.sessionId === s.data.sessionId)
+      ),
+      ...loaded,
+    ]);
+    if (loaded.length > 0) {
+      // Keeps a selection made while the files were being read
+      setSelectedId((current) => current ?? loaded[0].data.sessionId);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    loadFiles(e.dataTransfer.files);
+  };
+
+  const removeSession = (sessionId: string) => {
+    setSessions((prev) => prev.filter((s) => s.data.sessionId !== sessionId));
+    setComparedIds((prev) => prev.filter((id) => id !== sessionId));
+    if (selectedId === sessionId) setSelectedId(null);
+  };
+
+  const toggleCompared = (sessionId: string) => {
+    setComparedIds((prev) =>
+      prev.includes(sessionId)
+        ? prev.filter((id) => id !== sessionId)
+        : [...prev, sessionId]
+    );
+  };
+
+  const setRange = (trait: string, bound: "min" | "max", value: string) => {
+    setRanges((prev) => ({
+      ...prev,
+      [trait]: { ...(prev[trait] ?? { min: "", max: "" }), [bound]: value },
+    }));
+  };
+
+  // Only traits with at least one bound set constrain the list
+  const activeRanges: Record<string, TraitRange> = {};
+  traitRegistry.traits.forEach((trait) => {
+    const range = ranges[trait.key];
+    if (!range || (range.min === "" && range.max === "")) return;
+    activeRanges[trait.key] = {
+      min: range.min === "" ? -Infinity : Number(range.min),
+      max: range.max === "" ? Infinity : Number(range.max),
+    };
+  });
+  const visibleSessions = sessions.filter((session) =>
+    matchesTraitRanges(session, activeRanges)
+  );
+  const selected = sessions.find((s) => s.data.sessionId === selectedId);
+  const compared = sessions.filter((s) =>
+    comparedIds.includes(s.data.sessionId)
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-100">
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Session Review</h1>
+          <p className="text-sm text-gray-400">
+            Drop session files exported from researcher mode to replay and
+            compare them. Files are read in this browser and never uploaded.
+          </p>
+        </div>
+
+        {/* Drop zone */}
+        <label
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center justify-center p-8 rounded-xl border-2 border-dashed cursor-pointer ${
+            isDragging
+              ? "border-purple-400 bg-purple-900/20"
+              : "border-gray-700 hover:border-gray-500"
+          }`}
+        >
+          <FileUp className="w-8 h-8 mb-2 text-gray-400" />
+          <span className="text-sm text-gray-300">
+            Drop <code>assessment-session-*.json</code> files here, or click to
+            choose
+          </span>
+          <input
+            type="file"
+            accept=".json,application/json"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              loadFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        {errors.map((error) => (
+          <p key={error} className="text-sm text-red-400">
+            {error}
+          </p>
+        ))}
+
+        {sessions.length > 0 && (
+          <div className="grid gap-6 lg:grid-cols-[18rem_1fr]">
+            {/* Trait range filters */}
+            <Card className="bg-gray-800 border-gray-700 text-gray-100 p-4 gap-3 self-start">
+              <h2 className="text-sm font-semibold">Filter by final score</h2>
+              {traitRegistry.traits.map((trait) => (
+                <div key={trait.key} className="space-y-1">
+                  <p className="text-xs text-gray-400">{trait.label}</p>
+                  <div className="flex items-center space-x-2">
+                    {(["min", "max"] as const).map((bound) => (
+                      <Input
+                        key={bound}
+                        type="number"
+                        min={trait.scoreScale.min}
+                        max={trait.scoreScale.max}
+                        step={0.5}
+                        placeholder={String(trait.scoreScale[bound])}
+                        value={ranges[trait.key]?.[bound] ?? ""}
+                        onChange={(e) =>
+                          setRange(trait.key, bound, e.target.value)
+                        }
+                        className="h-8 bg-gray-900 border-gray-700"
+                        aria-label={`${trait.label} ${bound}imum`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setRanges({})}
+                className="text-gray-400 hover:text-white"
+              >
+                Clear filters
+              </Button>
+            </Card>
+
+            {/* Session list */}
+            <div className="space-y-3">
+              <p className="text-sm text-gray-400">
+                {visibleSessions.length} of {sessions.length} sessions match
+              </p>
+              {visibleSessions.map((session) => {
+                const { data } = session;
+                return (
+                  <Card
+                    key={data.sessionId}
+                    className={`p-4 gap-2 text-gray-100 ${
+                      data.sessionId === selectedId
+                        ? "bg-gray-800 border-purple-500"
+                        : "bg-gray-800 border-gray-700"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium">User {data.userId}</p>
+                        <p className="text-xs text-gray-400">
+                          Session {data.sessionId} · {session.fileName} ·{" "}
+                          {data.messages.length} messages
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <label className="flex items-center space-x-1 text-xs text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={comparedIds.includes(data.sessionId)}
+                            onChange={() => toggleCompared(data.sessionId)}
+                          />
+                          <span>Compare</span>
+                        </label>
+                        <Button
+                          size="sm"
+                          onClick={() => setSelectedId(data.sessionId)}
+                          className="bg-purple-600 hover:bg-purple-700 text-white"
+                        >
+                          Replay
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeSession(data.sessionId)}
+                          className="text-gray-400 hover:text-white"
+                          title="Remove from the console"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {data.finalScores.map((score) => (
+                        <Badge
+                          key={score.trait}
+                          variant="secondary"
+                          className="bg-gray-700 text-gray-200"
+                        >
+                          {score.label}: {score.score.toFixed(1)}
+                        </Badge>
+                      ))}
+                      {!data.persona && (
+                        <Badge variant="outline" className="text-gray-400">
+                          No persona
+                        </Badge>
+                      )}
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Replay of the selected session */}
+        {selected && (
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold">
+                Replay: user {selected.data.userId}
+              </h2>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelectedId(null)}
+                className="text-gray-400 hover:text-white"
+              >
+                <X className="w-4 h-4" />
+                Close
+              </Button>
+            </div>
+            <SessionReplay
+              key={selected.data.sessionId}
+              session={selected}
+              registry={traitRegistry}
+            />
+          </section>
+        )}
+
+        {/* Personas of the compared sessions side by side */}
+        {compared.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-lg font-semibold">Compare personas</h2>
+            <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+              {compared.map((session) => (
+                <div key={session.data.sessionId} className="space-y-3">
+                  <p className="font-medium">User {session.data.userId}</p>
+                  <TraitRadarChart
+                    traits={traitRegistry.traits}
+                    scores={session.data.finalScores}
+                    size={240}
+                    className="mx-auto"
+                  />
+                  {session.persona ? (
+                    <PersonaReport
+                      report={session.persona}
+                      getTraitLabel={(trait) =>
+                        getTraitLabel(traitRegistry, trait)
+                      }
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-500">
+                      No persona was generated in this session.
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useState } from "react";
+import * as api from "@/lib/api";
+import * as chatStorage from "@/lib/chat-storage";
+import { clearConsent, readConsent } from "@/lib/consent";
+import { LOCALE_TAGS } from "@/lib/i18n";
+import { LocaleSwitcher } from "@/components/locale-switcher";
+import { useLocale } from "@/hooks/use-locale";
+import {
+  WITHDRAWAL_WINDOW_DAYS,
+  canWithdraw,
+  daysLeftToWithdraw,
+  withdrawalDeadline,
+} from "@/lib/withdrawal";
+
+/**
+ * Self-service withdrawal of consent
+ * The participant looks up their session by user ID, confirms, and gets a
+ * receipt. Withdrawal is only offered within the window promised by the
+ * consent form; the backend enforces the same window.
+ */
+export default function WithdrawPage() {
+  const { locale, t } = useLocale();
+  const [userId, setUserId] = useState("");
+  const [status, setStatus] = useState<api.WithdrawalStatusResponse | null>(
+    null
+  );
+  const [receipt, setReceipt] = useState<api.WithdrawalReceiptResponse | null>(
+    null
+  );
+  const [confirmed, setConfirmed] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const formatDate = (iso: string | Date) =>
+    new Date(iso).toLocaleString(LOCALE_TAGS[locale], {
+      dateStyle: "long",
+      timeStyle: "short",
+    });
+
+  /**
+   * Turns a failed call into a message for the participant
+   */
+  const describeError = (err: unknown) => {
+    if (err instanceof api.ApiError) {
+      if (err.status === 404) return t("withdraw.notFound");
+      if (err.status === 403) {
+        return t("withdraw.windowClosedError", {
+          days: WITHDRAWAL_WINDOW_DAYS,
+        });
+      }
+      if (err.status === 409) return t("withdraw.alreadyWithdrawnError");
+    }
+    return t("withdraw.error");
+  };
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = userId.trim();
+    if (!id) return;
+
+    setLoading(true);
+    setError("");
+    setStatus(null);
+    setConfirmed(false);
+    try {
+      setStatus(await api.getWithdrawalStatus(id));
+    } catch (err) {
+      console.error("Failed to look up session", err);
+      setError(describeError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!status) return;
+
+    setLoading(true);
+    setError("");
+    try {
+      const result = await api.withdrawConsent(status.user_id);
+      setReceipt(result);
+
+      // Do not offer to resume a withdrawn session in this browser
+      const stored = chatStorage.loadSession();
+      if (stored?.userId === status.user_id) {
+        chatStorage.clearSession(stored.sessionId);
+      }
+      // and close the chat and feedback form, which the consent opened
+      if (readConsent()?.userId === status.user_id) clearConsent();
+    } catch (err) {
+      console.error("Failed to withdraw consent", err);
+      setError(describeError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const windowOpen = status ? canWithdraw(status.session_started_at) : false;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-900 text-gray-100 p-6">
+      <div className="max-w-xl w-full bg-gray-800 rounded-2xl shadow-lg p-8 space-y-6">
+        <div className="flex justify-end">
+          <LocaleSwitcher />
+        </div>
+        <h1 className="text-2xl font-bold text-center">
+          {t("withdraw.title")}
+        </h1>
+
+        {receipt ? (
+          // Receipt
+          <div className="space-y-4">
+            <p className="text-green-400 font-medium">
+              {t("withdraw.success")}
+            </p>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm bg-gray-900 p-4 rounded-lg border border-gray-700">
+              <dt className="text-gray-400">{t("withdraw.receipt")}</dt>
+              <dd className="font-mono">{receipt.receipt_id}</dd>
+              <dt className="text-gray-400">{t("withdraw.userId")}</dt>
+              <dd className="font-mono break-all">{receipt.user_id}</dd>
+              <dt className="text-gray-400">{t("withdraw.withdrawn")}</dt>
+              <dd>{formatDate(receipt.withdrawn_at)}</dd>
+              <dt className="text-gray-400">{t("withdraw.deleteBy")}</dt>
+              <dd>{formatDate(receipt.delete_by)}</dd>
+            </dl>
+            <p className="text-sm text-gray-400">{t("withdraw.keepReceipt")}</p>
+            <button
+              type="button"
+              onClick={() => window.print()}
+              className="w-full py-2 px-4 rounded-lg border border-gray-600 hover:bg-gray-700"
+            >
+              {t("withdraw.print")}
+            </button>
+          </div>
+        ) : (
+          <>
+            <p className="text-gray-300">
+              {t("withdraw.intro", { days: WITHDRAWAL_WINDOW_DAYS })}
+            </p>
+
+            {/* Look up the session */}
+            <form onSubmit={handleLookup} className="flex space-x-2">
+              <input
+                type="text"
+                value={userId}
+                onChange={(e) => setUserId(e.target.value)}
+                placeholder={t("withdraw.userId")}
+                className="flex-1 p-2 rounded-md bg-gray-900 border border-gray-600 text-white"
+                aria-label={t("withdraw.userId")}
+                required
+              />
+              <button
+                type="submit"
+                disabled={loading || !userId.trim()}
+                className="py-2 px-4 rounded-lg bg-blue-600 hover:bg-blue-700 font-semibold disabled:bg-gray-600 disabled:cursor-not-allowed"
+              >
+                {t("withdraw.find")}
+              </button>
+            </form>
+
+            {/* Session found: confirm */}
+            {status && (
+              <div className="space-y-4 bg-gray-900 p-4 rounded-lg border border-gray-700">
+                <p>
+                  <span className="text-gray-400">
+                    {t("withdraw.sessionDate")}
+                  </span>{" "}
+                  {formatDate(status.session_started_at)}
+                </p>
+                {status.withdrawn_at ? (
+                  <p className="text-amber-400">
+                    {t("withdraw.alreadyWithdrawn", {
+                      date: formatDate(status.withdrawn_at),
+                    })}
+                  </p>
+                ) : windowOpen ? (
+                  <>
+                    <p className="text-sm text-gray-300">
+                      {t("withdraw.deadline", {
+                        date: formatDate(
+                          withdrawalDeadline(status.session_started_at)
+                        ),
+                        days: daysLeftToWithdraw(status.session_started_at),
+                      })}
+                    </p>
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={confirmed}
+                        onChange={() => setConfirmed(!confirmed)}
+                        className="w-4 h-4"
+                      />
+                      <span>{t("withdraw.confirm")}</span>
+                    </label>
+                    <button
+                      type="button"
+                      onClick={handleWithdraw}
+                      disabled={!confirmed || loading}
+                      className="w-full py-2 px-4 rounded-lg bg-red-600 hover:bg-red-700 font-semibold disabled:bg-gray-600 disabled:cursor-not-allowed"
+                    >
+                      {loading
+                        ? t("withdraw.submitting")
+                        : t("withdraw.submit")}
+                    </button>
+                  </>
+                ) : (
+                  <p className="text-amber-400">
+                    {t("withdraw.windowClosed", {
+                      days: WITHDRAWAL_WINDOW_DAYS,
+                      date: formatDate(
+                        withdrawalDeadline(status.session_started_at)
+                      ),
+                    })}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {error && <p className="text-red-400">{error}</p>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { BackendState } from "@/lib/api";
+import {
+  Copy,
+  Download,
+  FlaskConical,
+  LogOut,
+  PanelRightClose,
+} from "lucide-react";
+
+interface BackendStatePanelProps {
+  state: BackendState | undefined; // Latest state returned by /chat
+  userId: string | null;
+  sessionId: string | null;
+  onExport: (format: "json" | "csv") => void; // Downloads the session data
+  onExit: () => void; // Leaves researcher mode
+}
+
+/**
+ * Researcher-only side panel showing the raw backend state of the session,
+ * collapsible to a small badge so it never hides the chat for long
+ */
+export function BackendStatePanel({
+  state,
+  userId,
+  sessionId,
+  onExport,
+  onExit,
+}: BackendStatePanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const json = JSON.stringify(state ?? null, null, 2);
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="fixed top-4 right-4 z-40"
+      >
+        <Badge className="bg-amber-600 text-white">
+          <FlaskConical className="w-3 h-3" />
+          Researcher mode
+        </Badge>
+      </button>
+    );
+  }
+
+  return (
+    <aside className="fixed top-0 right-0 z-40 h-screen w-full max-w-md flex flex-col bg-gray-950/95 border-l border-amber-700/60 text-gray-100 shadow-xl">
+      <div className="flex items-center justify-between p-3 border-b border-gray-800">
+        <h2 className="flex items-center text-sm font-semibold text-amber-300">
+          <FlaskConical className="w-4 h-4 mr-2" />
+          Backend state
+        </h2>
+        <div className="flex space-x-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigator.clipboard?.writeText(json)}
+            className="text-gray-400 hover:text-white"
+            title="Copy state as JSON"
+          >
+            <Copy className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsOpen(false)}
+            className="text-gray-400 hover:text-white"
+            title="Hide panel"
+          >
+            <PanelRightClose className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onExit}
+            className="text-gray-400 hover:text-white"
+            title="Exit researcher mode"
+          >
+            <LogOut className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 p-3 text-xs border-b border-gray-800">
+        <dt className="text-gray-500">User ID</dt>
+        <dd className="font-mono break-all">{userId ?? "N/A"}</dd>
+        <dt className="text-gray-500">Session ID</dt>
+        <dd className="font-mono break-all">{sessionId ?? "N/A"}</dd>
+        <dt className="text-gray-500">Priority</dt>
+        <dd className="font-mono">{state?.current_priority ?? "N/A"}</dd>
+        <dt className="text-gray-500">Iteration</dt>
+        <dd className="font-mono">{state?.current_iteration ?? "N/A"}</dd>
+      </dl>
+
+      <div className="flex items-center space-x-2 p-3 border-b border-gray-800">
+        <span className="text-xs text-gray-500">Export session</span>
+        {(["json", "csv"] as const).map((format) => (
+          <Button
+            key={format}
+            variant="outline"
+            size="sm"
+            onClick={() => onExport(format)}
+            disabled={!sessionId}
+            className="border-gray-700 bg-transparent text-gray-300 hover:bg-gray-800 hover:text-white"
+          >
+            <Download className="w-4 h-4" />
+            {format.toUpperCase()}
+          </Button>
+        ))}
+      </div>
+
+      {state ? (
+        <pre className="flex-1 overflow-auto p-3 text-xs font-mono text-gray-300 whitespace-pre-wrap break-all">
+          {json}
+        </pre>
+      ) : (
+        <p className="p-3 text-sm text-gray-500">
+          No backend state yet. Send a message to receive one.
+        </p>
+      )}
+    </aside>
+  );
+}
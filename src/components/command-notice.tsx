@@ -0,0 +1,94 @@
+"use client";
+
+import { X } from "lucide-react";
+import { useLocale } from "@/hooks/use-locale";
+import { listCommands, type ParsedCommand } from "@/lib/commands";
+
+interface CommandNoticeProps {
+  notice: ParsedCommand; // Command whose reply is shown
+  assessedTraits: string[]; // Display names of the traits assessed so far
+  totalTraits: number; // Traits in the study's registry
+  minTraitsForPersona: number; // Assessed traits needed for the persona
+  onDismiss: () => void;
+}
+
+/**
+ * Reply of the chat to /help, /progress or an unknown command. It is shown
+ * above the composer and is not part of the conversation sent to the backend.
+ */
+export function CommandNotice({
+  notice,
+  assessedTraits,
+  totalTraits,
+  minTraitsForPersona,
+  onDismiss,
+}: CommandNoticeProps) {
+  const { t, rich } = useLocale();
+  const command = notice.type === "command" ? notice.command : null;
+
+  return (
+    <div
+      role="status"
+      className="mb-3 flex items-start justify-between gap-3 rounded-md border border-gray-700 bg-gray-800 p-3 text-sm text-gray-300"
+    >
+      <div>
+        {command === "help" && (
+          <>
+            <p className="font-semibold text-white">
+              {t("commands.helpTitle")}
+            </p>
+            <ul className="mt-1 space-y-1">
+              {listCommands().map(({ command, names }) => (
+                <li key={command}>
+                  <span className="font-medium text-blue-400">
+                    {names.join(", ")}
+                  </span>{" "}
+                  — {t(`commands.${command}` as const)}
+                </li>
+              ))}
+            </ul>
+            <p className="mt-1 text-gray-400">{t("commands.helpKeywords")}</p>
+          </>
+        )}
+        {command === "progress" && (
+          <>
+            <p className="font-semibold text-white">
+              {t("commands.progressSummary", {
+                count: assessedTraits.length,
+                total: totalTraits,
+              })}
+            </p>
+            <p className="mt-1">
+              {assessedTraits.length > 0
+                ? assessedTraits.join(", ")
+                : t("commands.progressNone")}
+            </p>
+            {assessedTraits.length < minTraitsForPersona && (
+              <p className="mt-1 text-gray-400">
+                {t("commands.progressPersona", { min: minTraitsForPersona })}
+              </p>
+            )}
+          </>
+        )}
+        {notice.type === "unknown" && (
+          <p>
+            {rich("commands.unknown", {
+              command: (
+                <span className="font-medium text-red-400">/{notice.name}</span>
+              ),
+              help: <span className="font-medium text-blue-400">/help</span>,
+            })}
+          </p>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={onDismiss}
+        aria-label={t("commands.dismiss")}
+        className="text-gray-400 hover:text-white"
+      >
+        <X className="w-4 h-4" aria-hidden="true" />
+      </button>
+    </div>
+  );
+}
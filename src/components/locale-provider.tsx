@@ -0,0 +1,68 @@
+"use client";
+
+import {
+  Fragment,
+  type ReactNode,
+  createContext,
+  useCallback,
+  useMemo,
+  useState,
+} from "react";
+import {
+  type Locale,
+  type MessageKey,
+  messageText,
+  splitPlaceholders,
+  storeLocale,
+  translate,
+} from "@/lib/i18n";
+
+export interface LocaleContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void; // Switches the language and remembers it
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  // Like t, for texts with links or highlighted words in their placeholders
+  rich: (key: MessageKey, params: Record<string, ReactNode>) => ReactNode;
+}
+
+export const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+interface LocaleProviderProps {
+  initialLocale: Locale; // Negotiated when the page was rendered
+  children: ReactNode;
+}
+
+/**
+ * Makes the UI language available to every page below it
+ */
+export function LocaleProvider({
+  initialLocale,
+  children,
+}: LocaleProviderProps) {
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    storeLocale(next);
+    document.documentElement.lang = next;
+  }, []);
+
+  const value = useMemo<LocaleContextValue>(
+    () => ({
+      locale,
+      setLocale,
+      t: (key, params) => translate(locale, key, params),
+      rich: (key, params) =>
+        splitPlaceholders(messageText(locale, key)).map((part, index) => (
+          <Fragment key={index}>
+            {index % 2 === 1 ? params[part] : part}
+          </Fragment>
+        )),
+    }),
+    [locale, setLocale]
+  );
+
+  return (
+    <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>
+  );
+}
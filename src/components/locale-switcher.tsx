@@ -0,0 +1,32 @@
+"use client";
+
+import { useLocale } from "@/hooks/use-locale";
+import { LOCALES, LOCALE_LABELS, isLocale } from "@/lib/i18n";
+
+interface LocaleSwitcherProps {
+  className?: string;
+}
+
+/**
+ * Drop-down to change the UI language, each language named in itself
+ */
+export function LocaleSwitcher({ className = "" }: LocaleSwitcherProps) {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => {
+        if (isLocale(e.target.value)) setLocale(e.target.value);
+      }}
+      aria-label={t("locale.label")}
+      className={`rounded-md bg-gray-800 border border-gray-600 px-2 py-1 text-sm text-gray-200 ${className}`}
+    >
+      {LOCALES.map((option) => (
+        <option key={option} value={option} lang={option}>
+          {LOCALE_LABELS[option]}
+        </option>
+      ))}
+    </select>
+  );
+}
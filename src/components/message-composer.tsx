@@ -0,0 +1,110 @@
+"use client";
+
+import { useId, useLayoutEffect, useRef } from "react";
+import { useLocale } from "@/hooks/use-locale";
+import { MAX_MESSAGE_LENGTH, sanitizePastedText } from "@/lib/composer";
+
+// The textarea grows with its content up to this height, then scrolls
+const MAX_HEIGHT_PX = 200;
+
+interface MessageComposerProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  maxLength?: number; // Defaults to MAX_MESSAGE_LENGTH
+  label?: string; // Accessible name, defaults to the chat input label
+  autoFocus?: boolean;
+}
+
+/**
+ * Multi-line message box of the chat. Enter submits the surrounding form,
+ * Shift+Enter adds a line. It stays editable while a reply is loading so
+ * the next answer can be drafted; the form decides when it can be sent.
+ */
+export function MessageComposer({
+  value,
+  onChange,
+  disabled,
+  maxLength = MAX_MESSAGE_LENGTH,
+  label,
+  autoFocus,
+}: MessageComposerProps) {
+  const { t } = useLocale();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Several composers can be on the page while a message is edited
+  const id = useId();
+
+  // Fit the height to the content
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = "auto";
+    textarea.style.height = `${Math.min(
+      textarea.scrollHeight,
+      MAX_HEIGHT_PX
+    )}px`;
+  }, [value]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter also confirms IME compositions, e.g. Hindi transliteration
+    if (e.key !== "Enter" || e.shiftKey || e.nativeEvent.isComposing) return;
+    e.preventDefault();
+    e.currentTarget.form?.requestSubmit();
+  };
+
+  // Pasted text is cleaned and cut to what still fits
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    e.preventDefault();
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    const room = maxLength - (value.length - (selectionEnd - selectionStart));
+    const pasted = sanitizePastedText(
+      e.clipboardData.getData("text/plain")
+    ).slice(0, Math.max(0, room));
+
+    onChange(
+      value.slice(0, selectionStart) + pasted + value.slice(selectionEnd)
+    );
+    const caret = selectionStart + pasted.length;
+    requestAnimationFrame(() => textarea.setSelectionRange(caret, caret));
+  };
+
+  const nearLimit = value.length >= maxLength * 0.9;
+
+  return (
+    <div className="flex-1 flex flex-col">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onPaste={handlePaste}
+        placeholder={t("chat.placeholder")}
+        aria-label={label ?? t("chat.inputLabel")}
+        aria-describedby={`${id}-hint ${id}-counter`}
+        autoFocus={autoFocus}
+        maxLength={maxLength}
+        rows={1}
+        disabled={disabled}
+        className="w-full resize-none overflow-y-auto rounded-md border border-gray-600 bg-gray-800 px-3 py-2 text-white placeholder-gray-400 focus:border-blue-500 focus:outline-none disabled:opacity-50"
+      />
+      <div className="mt-1 flex justify-between text-xs text-gray-400">
+        <span id={`${id}-hint`}>{t("chat.newlineHint")}</span>
+        <span
+          id={`${id}-counter`}
+          className={
+            value.length >= maxLength
+              ? "text-red-400"
+              : nearLimit
+              ? "text-amber-400"
+              : ""
+          }
+          // Only worth announcing once the limit is close
+          aria-live={nearLimit ? "polite" : "off"}
+        >
+          {t("chat.counter", { count: value.length, max: maxLength })}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { Card } from "@/components/ui/card";
+import { useLocale } from "@/hooks/use-locale";
+import { type PersonaReport as Report, hasSections } from "@/lib/persona";
+import { CheckCircle2, FileText, Lightbulb, ListChecks } from "lucide-react";
+
+interface PersonaReportProps {
+  report: Report;
+  getTraitLabel?: (trait: string) => string; // Display name for trait keys in notes
+}
+
+/**
+ * Renders a parsed persona as cards: summary, strengths, opportunities to
+ * improve and per-trait notes. Falls back to the raw text when the persona
+ * has no recognizable sections.
+ */
+export function PersonaReport({
+  report,
+  getTraitLabel = (trait) => trait,
+}: PersonaReportProps) {
+  const { t } = useLocale();
+
+  if (!hasSections(report)) {
+    return (
+      <Card className="bg-gray-900/50 border-gray-700 p-4">
+        <p className="whitespace-pre-wrap text-gray-200 text-sm leading-relaxed">
+          {report.raw}
+        </p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Summary */}
+      {report.summary.length > 0 && (
+        <Card className="bg-gray-900/50 border-gray-700 p-4 gap-2">
+          <h3 className="flex items-center text-sm font-semibold text-purple-300">
+            <FileText className="w-4 h-4 mr-2" />
+            {t("persona.summary")}
+          </h3>
+          {report.summary.map((paragraph, index) => (
+            <p key={index} className="text-gray-200 text-sm leading-relaxed">
+              {paragraph}
+            </p>
+          ))}
+        </Card>
+      )}
+
+      {/* Strengths */}
+      {report.strengths.length > 0 && (
+        <Card className="bg-green-900/20 border-green-700/50 p-4 gap-2">
+          <h3 className="flex items-center text-sm font-semibold text-green-300">
+            <CheckCircle2 className="w-4 h-4 mr-2" />
+            {t("persona.strengths")}
+          </h3>
+          <ul className="list-disc list-inside space-y-1 text-sm text-gray-200">
+            {report.strengths.map((strength, index) => (
+              <li key={index}>{strength}</li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      {/* Opportunities to improve */}
+      {report.opportunities.length > 0 && (
+        <Card className="bg-amber-900/20 border-amber-700/50 p-4 gap-2">
+          <h3 className="flex items-center text-sm font-semibold text-amber-300">
+            <Lightbulb className="w-4 h-4 mr-2" />
+            {t("persona.opportunities")}
+          </h3>
+          <ul className="list-disc list-inside space-y-1 text-sm text-gray-200">
+            {report.opportunities.map((opportunity, index) => (
+              <li key={index}>{opportunity}</li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      {/* Per-trait notes */}
+      {report.traitNotes.length > 0 && (
+        <Card className="bg-gray-900/50 border-gray-700 p-4 gap-2">
+          <h3 className="flex items-center text-sm font-semibold text-blue-300">
+            <ListChecks className="w-4 h-4 mr-2" />
+            {t("persona.traitNotes")}
+          </h3>
+          <dl className="space-y-2 text-sm">
+            {report.traitNotes.map((note, index) => (
+              <div key={index}>
+                {note.trait && (
+                  <dt className="font-medium text-gray-100">
+                    {getTraitLabel(note.trait)}
+                  </dt>
+                )}
+                <dd className="text-gray-300">{note.note}</dd>
+              </div>
+            ))}
+          </dl>
+        </Card>
+      )}
+    </div>
+  );
+}
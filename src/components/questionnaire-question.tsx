@@ -0,0 +1,147 @@
+import type {
+  Answer,
+  Question,
+  QuestionTranslation,
+} from "@/lib/questionnaire";
+
+interface QuestionnaireQuestionProps {
+  question: Question;
+  number: number; // Position among the shown questions, 1-based
+  scales: Record<string, string[]>; // Likert scales of the questionnaire
+  translation?: QuestionTranslation; // Display text in the participant's language
+  scaleLabels?: Record<string, string[]>; // Translated Likert labels, same order as scales
+  labels: { optional: string; missing: string }; // UI texts in the participant's language
+  value: Answer | undefined;
+  onChange: (value: Answer) => void;
+  missing?: boolean; // Highlights a required question left unanswered on submit
+}
+
+/**
+ * DOM id of a rendered question, used to scroll to it
+ */
+export function questionElementId(questionId: string) {
+  return `question-${questionId}`;
+}
+
+/**
+ * One feedback question: a row of radio buttons for Likert items and single
+ * choice, checkboxes for multiple choice, or a text box
+ */
+export function QuestionnaireQuestion({
+  question,
+  number,
+  scales,
+  translation,
+  scaleLabels,
+  labels,
+  value,
+  onChange,
+  missing,
+}: QuestionnaireQuestionProps) {
+  const required = question.required !== false;
+  const elementId = questionElementId(question.id);
+  const errorId = `${elementId}-error`;
+  // Screen readers read the problem along with the field
+  const invalidProps = missing
+    ? { "aria-invalid": true, "aria-describedby": errorId }
+    : {};
+
+  // Options keep their original wording as values, only the labels are
+  // translated
+  const renderOptions = (
+    options: string[],
+    labels: string[] | undefined,
+    multiple: boolean
+  ) => {
+    const selected = [value ?? []].flat();
+    return (
+      <div className="flex flex-wrap gap-x-6 gap-y-2">
+        {options.map((opt, index) => (
+          <label key={opt} className="flex items-center space-x-2">
+            <input
+              type={multiple ? "checkbox" : "radio"}
+              name={question.id}
+              value={opt}
+              checked={selected.includes(opt)}
+              onChange={() =>
+                onChange(
+                  multiple
+                    ? selected.includes(opt)
+                      ? selected.filter((s) => s !== opt)
+                      : [...selected, opt]
+                    : opt
+                )
+              }
+              className="form-radio text-blue-600"
+              // Browsers cannot require "at least one" checkbox, the form
+              // checks multiple choice questions on submit
+              required={required && !multiple}
+              {...invalidProps}
+            />
+            <span>{labels?.[index] ?? opt}</span>
+          </label>
+        ))}
+      </div>
+    );
+  };
+
+  const title = (
+    <>
+      {number}. {translation?.text ?? question.text}
+      {!required && (
+        <span className="ml-2 text-sm text-gray-400">{labels.optional}</span>
+      )}
+    </>
+  );
+  const error = missing && (
+    <p id={errorId} className="mt-2 text-sm text-amber-300">
+      {labels.missing}
+    </p>
+  );
+  const className = `mb-8 ${
+    missing ? "-mx-3 p-3 rounded-lg border border-amber-500/70" : ""
+  }`;
+
+  // A text box is labelled directly, option groups by their legend
+  if (question.type === "text") {
+    return (
+      <div id={elementId} className={className}>
+        <label
+          htmlFor={`${elementId}-input`}
+          className="block mb-2 font-medium"
+        >
+          {title}
+        </label>
+        <textarea
+          id={`${elementId}-input`}
+          className="w-full p-2 rounded-md bg-gray-800 border border-gray-600 text-white"
+          rows={question.rows ?? 3}
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={translation?.placeholder ?? question.placeholder}
+          required={required}
+          {...invalidProps}
+        />
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <fieldset id={elementId} className={className}>
+      <legend className="mb-2 font-medium">{title}</legend>
+      {question.type === "likert"
+        ? renderOptions(
+            scales[question.scale] ?? [],
+            scaleLabels?.[question.scale],
+            false
+          )
+        : renderOptions(
+            question.options,
+            translation?.options,
+            !!question.multiple
+          )}
+      {error}
+    </fieldset>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { TraitRadarChart } from "@/components/trait-radar-chart";
+import { aggregateTraitScores } from "@/lib/aggregation";
+import { type ReviewSession, buildTurns } from "@/lib/review";
+import { type TraitRegistry, getTraitLabel } from "@/lib/traits";
+import { Bot, Brain, ChevronLeft, ChevronRight, User } from "lucide-react";
+
+interface SessionReplayProps {
+  session: ReviewSession;
+  registry: TraitRegistry; // For trait labels, scales and chart axes
+}
+
+/**
+ * Steps through an exported conversation one turn at a time, with the
+ * assessments each turn produced and the scores as they stood after it
+ */
+export function SessionReplay({ session, registry }: SessionReplayProps) {
+  const turns = buildTurns(session.chatState);
+  const [position, setPosition] = useState(turns.length);
+  // Clamp in case a shorter session replaced the one being replayed
+  const shown = Math.min(position, turns.length);
+
+  const visibleTurns = turns.slice(0, shown);
+  const scores = aggregateTraitScores(
+    visibleTurns.flatMap((turn) => turn.assessments),
+    session.data.aggregation
+  );
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[1fr_auto]">
+      <div className="space-y-4">
+        <div className="flex items-center space-x-3">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPosition(Math.max(0, shown - 1))}
+            disabled={shown === 0}
+            className="border-gray-700 bg-transparent text-gray-300"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <input
+            type="range"
+            min={0}
+            max={turns.length}
+            value={shown}
+            onChange={(e) => setPosition(Number(e.target.value))}
+            className="flex-1"
+            aria-label="Turn"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPosition(Math.min(turns.length, shown + 1))}
+            disabled={shown === turns.length}
+            className="border-gray-700 bg-transparent text-gray-300"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-gray-400 w-24 text-right">
+            Turn {shown} of {turns.length}
+          </span>
+        </div>
+
+        {visibleTurns.length === 0 && (
+          <p className="text-sm text-gray-500">
+            Move the slider to replay the conversation.
+          </p>
+        )}
+
+        {visibleTurns.map((turn) => (
+          <div key={turn.message.id} className="space-y-3">
+            <div className="flex items-start justify-end space-x-3">
+              <div className="max-w-2xl">
+                <Card className="p-3 bg-blue-600 text-white">
+                  <p className="whitespace-pre-wrap text-sm">
+                    {turn.message.content}
+                  </p>
+                </Card>
+                <p className="mt-1 text-right text-xs text-gray-500">
+                  Turn {turn.number} ·{" "}
+                  {turn.message.timestamp.toLocaleTimeString()}
+                </p>
+              </div>
+              <div className="w-8 h-8 rounded-full bg-gray-600 flex items-center justify-center flex-shrink-0">
+                <User className="w-4 h-4" />
+              </div>
+            </div>
+
+            {/* Assessments made while answering this message */}
+            {turn.assessments.length > 0 && (
+              <div className="flex items-start space-x-3">
+                <div className="w-8 h-8 rounded-full bg-green-600 flex items-center justify-center flex-shrink-0">
+                  <Brain className="w-4 h-4" />
+                </div>
+                <Card className="max-w-2xl p-3 gap-2 bg-green-900/20 border-green-700/50 text-gray-100">
+                  {turn.assessments.map((entry, index) => (
+                    <div key={index} className="space-y-1">
+                      <div className="flex flex-wrap gap-2">
+                        <Badge
+                          variant="outline"
+                          className="border-green-600 text-green-300"
+                        >
+                          {getTraitLabel(registry, entry.trait)}
+                        </Badge>
+                        {entry.score !== undefined && (
+                          <Badge
+                            variant="secondary"
+                            className="bg-green-800 text-green-200"
+                          >
+                            Score: {entry.score}
+                          </Badge>
+                        )}
+                        {entry.confidence !== undefined && (
+                          <Badge
+                            variant="secondary"
+                            className="bg-green-800 text-green-200"
+                          >
+                            Confidence: {entry.confidence}
+                          </Badge>
+                        )}
+                        {entry.iteration !== undefined && (
+                          <span className="text-xs text-green-400">
+                            Iteration {entry.iteration}
+                          </span>
+                        )}
+                      </div>
+                      {entry.rationale && (
+                        <p className="text-xs text-green-300 italic">
+                          {entry.rationale}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </Card>
+              </div>
+            )}
+
+            {turn.replies.map((reply) => (
+              <div key={reply.id} className="flex items-start space-x-3">
+                <div className="w-8 h-8 rounded-full bg-blue-600 flex items-center justify-center flex-shrink-0">
+                  <Bot className="w-4 h-4" />
+                </div>
+                <Card className="max-w-2xl p-3 bg-gray-800 text-gray-100">
+                  <p className="whitespace-pre-wrap text-sm">{reply.content}</p>
+                </Card>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {/* Scores as they stood after the last replayed turn */}
+      <div className="lg:sticky lg:top-4 self-start space-y-2">
+        <TraitRadarChart
+          traits={registry.traits}
+          scores={scores}
+          className="mx-auto"
+        />
+        <div className="flex flex-wrap gap-2 max-w-xs">
+          {scores.map((score) => (
+            <Badge
+              key={score.trait}
+              variant="secondary"
+              className="bg-gray-700 text-gray-200"
+            >
+              {getTraitLabel(registry, score.trait)}: {score.score.toFixed(1)}
+            </Badge>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useLocale } from "@/hooks/use-locale";
+import type { TraitDefinition } from "@/lib/traits";
+
+/**
+ * Aggregated assessment of one trait plotted on the chart
+ */
+export interface RadarTraitScore {
+  trait: string;
+  score: number; // Aggregated score on the trait's score scale
+  confidence: number; // Aggregated confidence on the trait's confidence scale
+}
+
+interface TraitRadarChartProps {
+  traits: TraitDefinition[]; // One axis each, in display order
+  scores: RadarTraitScore[]; // Traits without a score are drawn at the center
+  size?: number; // Width and height in pixels
+  showLabels?: boolean; // Axis labels, hidden for compact header use
+  className?: string;
+}
+
+// Rings drawn behind the data, as fractions of each axis
+const GRID_LEVELS = [0.2, 0.4, 0.6, 0.8, 1];
+
+/**
+ * SVG radar chart of the trait scores. Every axis runs from the bottom to the
+ * top of that trait's score scale. The solid polygon joins the aggregated scores;
+ * the shaded band around it widens as confidence drops, and each point's
+ * opacity follows its confidence.
+ */
+export function TraitRadarChart({
+  traits,
+  scores,
+  size = 320,
+  showLabels = true,
+  className,
+}: TraitRadarChartProps) {
+  const { t } = useLocale();
+  const center = size / 2;
+  // Leave room around the chart for the axis labels
+  const radius = size / 2 - (showLabels ? 56 : 8);
+  const count = traits.length;
+
+  const angle = (index: number) => -Math.PI / 2 + (2 * Math.PI * index) / count;
+  const point = (index: number, fraction: number) => {
+    const r = Math.max(0, Math.min(fraction, 1)) * radius;
+    return {
+      x: center + r * Math.cos(angle(index)),
+      y: center + r * Math.sin(angle(index)),
+    };
+  };
+  const polygon = (fractions: number[]) =>
+    fractions
+      .map((fraction, index) => {
+        const { x, y } = point(index, fraction);
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(" ");
+
+  const byTrait = new Map(scores.map((s) => [s.trait, s]));
+  // Score as a fraction of each trait's score scale
+  const values = traits.map((trait) => {
+    const data = byTrait.get(trait.key);
+    if (!data) return 0;
+    const { min, max } = trait.scoreScale;
+    return Math.max(0, Math.min((data.score - min) / (max - min), 1));
+  });
+  // Confidence as a fraction of each trait's confidence scale
+  const certainty = traits.map((trait) => {
+    const data = byTrait.get(trait.key);
+    if (!data) return 1;
+    const { min, max } = trait.confidenceScale;
+    return Math.max(0, Math.min((data.confidence - min) / (max - min), 1));
+  });
+  // Uncertainty: a full score point either side at zero confidence
+  const spread = traits.map(
+    (trait, i) =>
+      (1 - certainty[i]) / (trait.scoreScale.max - trait.scoreScale.min)
+  );
+  // A score at the bottom of its scale is still drawn with its band
+  const assessed = traits.map((trait) => byTrait.has(trait.key));
+  const outer = values.map((v, i) => (assessed[i] ? v + spread[i] : 0));
+  const inner = values.map((v, i) =>
+    assessed[i] ? Math.max(0, v - spread[i]) : 0
+  );
+
+  if (count < 3) return null;
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${size} ${size}`}
+      className={className}
+      role="img"
+      aria-label={t("radar.label", {
+        scores: traits
+          .map((trait) => {
+            const data = byTrait.get(trait.key);
+            return data
+              ? t("radar.score", {
+                  trait: trait.label,
+                  score: data.score.toFixed(1),
+                })
+              : t("radar.notAssessed", { trait: trait.label });
+          })
+          .join(", "),
+      })}
+    >
+      {/* Grid rings and axes */}
+      {GRID_LEVELS.map((level) => (
+        <polygon
+          key={level}
+          points={polygon(traits.map(() => level))}
+          className="fill-none stroke-gray-700"
+          strokeWidth={1}
+        />
+      ))}
+      {traits.map((trait, index) => {
+        const end = point(index, 1);
+        return (
+          <line
+            key={trait.key}
+            x1={center}
+            y1={center}
+            x2={end.x}
+            y2={end.y}
+            className="stroke-gray-700"
+            strokeWidth={1}
+          />
+        );
+      })}
+
+      {/* Confidence band: area between the low and high estimates */}
+      <path
+        d={`M${polygon(outer).split(" ").join(" L")} Z M${polygon(inner)
+          .split(" ")
+          .join(" L")} Z`}
+        fillRule="evenodd"
+        className="fill-purple-400/25"
+      />
+
+      {/* Aggregated scores */}
+      <polygon
+        points={polygon(values)}
+        className="fill-purple-500/30 stroke-purple-400"
+        strokeWidth={2}
+        strokeLinejoin="round"
+      />
+      {traits.map((trait, index) => {
+        const data = byTrait.get(trait.key);
+        if (!data) return null;
+        const { x, y } = point(index, values[index]);
+        return (
+          <circle
+            key={trait.key}
+            cx={x}
+            cy={y}
+            r={4}
+            className="fill-purple-300"
+            fillOpacity={0.3 + 0.7 * certainty[index]}
+          >
+            <title>
+              {t("radar.tooltip", {
+                trait: trait.label,
+                score: data.score.toFixed(1),
+                max: trait.scoreScale.max,
+                confidence: data.confidence.toFixed(1),
+                maxConfidence: trait.confidenceScale.max,
+              })}
+            </title>
+          </circle>
+        );
+      })}
+
+      {/* Axis labels */}
+      {showLabels &&
+        traits.map((trait, index) => {
+          const cos = Math.cos(angle(index));
+          const sin = Math.sin(angle(index));
+          const x = center + (radius + 10) * cos;
+          const y = center + (radius + 10) * sin;
+          const assessed = byTrait.has(trait.key);
+          return (
+            <text
+              key={trait.key}
+              x={x}
+              y={y + (sin > 0.5 ? 10 : sin < -0.5 ? -4 : 4)}
+              textAnchor={cos > 0.3 ? "start" : cos < -0.3 ? "end" : "middle"}
+              className={`text-[10px] ${
+                assessed ? "fill-gray-200" : "fill-gray-500"
+              }`}
+            >
+              <title>{trait.description}</title>
+              {trait.label}
+            </text>
+          );
+        })}
+    </svg>
+  );
+}
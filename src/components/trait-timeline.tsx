@@ -0,0 +1,176 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { useLocale } from "@/hooks/use-locale";
+import {
+  type TimelinePoint,
+  type TimelineTrend,
+  buildTraitTimelines,
+  describeTrend,
+} from "@/lib/trait-timeline";
+import type { TraitDefinition, TraitScale } from "@/lib/traits";
+import type { TraitData } from "@/lib/types";
+
+interface TraitTimelineProps {
+  traitData: TraitData[];
+  traits: TraitDefinition[]; // One row per trait, in display order
+}
+
+// Badge colors, the labels are in the catalogs as "timeline.<trend>"
+const TREND_STYLES: Record<TimelineTrend, string> = {
+  single: "bg-gray-700 text-gray-300",
+  stable: "bg-green-800 text-green-200",
+  oscillating: "bg-amber-800 text-amber-200",
+  drifting: "bg-blue-800 text-blue-200",
+};
+
+// Plot area of each row, in SVG units
+const WIDTH = 300;
+const HEIGHT = 64;
+const PADDING = 8;
+
+/**
+ * Small-multiple line charts of every trait's score (solid) and confidence
+ * (dashed) per assessment iteration, with a label summarizing whether the
+ * score settled before the persona was generated
+ */
+export function TraitTimeline({ traitData, traits }: TraitTimelineProps) {
+  const { t } = useLocale();
+  const timelines = buildTraitTimelines(
+    traitData,
+    traits.map((trait) => trait.key)
+  );
+  const steps = Object.values(timelines).flatMap((points) =>
+    points.map((p) => p.step)
+  );
+
+  if (steps.length === 0) {
+    return <p className="text-sm text-gray-400">{t("timeline.empty")}</p>;
+  }
+
+  // Shared x axis so rows can be compared iteration by iteration
+  const minStep = Math.min(...steps);
+  const maxStep = Math.max(...steps);
+  const x = (step: number) =>
+    maxStep === minStep
+      ? WIDTH / 2
+      : PADDING +
+        ((step - minStep) / (maxStep - minStep)) * (WIDTH - 2 * PADDING);
+  // Position of a value within its scale, from 0 at the minimum to 1 at the top
+  const fraction = (value: number, { min, max }: TraitScale) =>
+    Math.max(0, Math.min((value - min) / (max - min), 1));
+  const y = (value: number, scale: TraitScale) =>
+    HEIGHT - PADDING - fraction(value, scale) * (HEIGHT - 2 * PADDING);
+  const line = (points: TimelinePoint[], value: (p: TimelinePoint) => number) =>
+    points
+      .map((p) => `${x(p.step).toFixed(1)},${value(p).toFixed(1)}`)
+      .join(" ");
+
+  return (
+    <div className="space-y-3">
+      {traits.map((trait) => {
+        const points = timelines[trait.key];
+        const { scoreScale, confidenceScale } = trait;
+        const midScore = (scoreScale.min + scoreScale.max) / 2;
+        const trend = describeTrend(points);
+        const withConfidence = points.filter((p) => p.confidence !== undefined);
+
+        return (
+          <div key={trait.key} className="space-y-1">
+            <div className="flex items-center justify-between text-xs">
+              <span className="font-medium text-gray-200">{trait.label}</span>
+              {points.length > 0 ? (
+                <Badge variant="secondary" className={TREND_STYLES[trend]}>
+                  {t(`timeline.${trend}` as const)}
+                </Badge>
+              ) : (
+                <span className="text-gray-500">
+                  {t("timeline.notAssessed")}
+                </span>
+              )}
+            </div>
+
+            {points.length > 0 && (
+              <svg
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="w-full h-16 rounded bg-gray-900/60"
+                role="img"
+                aria-label={t("timeline.label", {
+                  trait: trait.label,
+                  points: points
+                    .map((p) =>
+                      t("timeline.point", { step: p.step, score: p.score })
+                    )
+                    .join(", "),
+                })}
+              >
+                {/* Midpoint of the score scale */}
+                <line
+                  x1={0}
+                  x2={WIDTH}
+                  y1={y(midScore, scoreScale)}
+                  y2={y(midScore, scoreScale)}
+                  className="stroke-gray-700"
+                  strokeDasharray="2 4"
+                />
+
+                {withConfidence.length > 1 && (
+                  <polyline
+                    points={line(withConfidence, (p) =>
+                      y(p.confidence as number, confidenceScale)
+                    )}
+                    className="fill-none stroke-gray-400"
+                    strokeWidth={1}
+                    strokeDasharray="4 3"
+                  />
+                )}
+                {points.length > 1 && (
+                  <polyline
+                    points={line(points, (p) => y(p.score, scoreScale))}
+                    className="fill-none stroke-purple-400"
+                    strokeWidth={2}
+                    strokeLinejoin="round"
+                  />
+                )}
+                {points.map((p, index) => (
+                  <circle
+                    key={index}
+                    cx={x(p.step)}
+                    cy={y(p.score, scoreScale)}
+                    r={3.5}
+                    className="fill-purple-300"
+                    fillOpacity={
+                      p.confidence !== undefined
+                        ? 0.3 + 0.7 * fraction(p.confidence, confidenceScale)
+                        : 1
+                    }
+                  >
+                    <title>
+                      {p.confidence !== undefined
+                        ? t("timeline.tooltipConfidence", {
+                            step: p.step,
+                            score: p.score,
+                            max: scoreScale.max,
+                            confidence: p.confidence,
+                            maxConfidence: confidenceScale.max,
+                          })
+                        : t("timeline.tooltip", {
+                            step: p.step,
+                            score: p.score,
+                            max: scoreScale.max,
+                          })}
+                    </title>
+                  </circle>
+                ))}
+              </svg>
+            )}
+          </div>
+        );
+      })}
+
+      <p className="text-xs text-gray-500">
+        {t("timeline.legend", { from: minStep, to: maxStep })}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { useContext } from "react";
+import {
+  LocaleContext,
+  type LocaleContextValue,
+} from "@/components/locale-provider";
+
+/**
+ * Returns the UI language with its translation helpers
+ */
+export function useLocale(): LocaleContextValue {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error("useLocale must be used inside a LocaleProvider");
+  }
+  return context;
+}
@@ -0,0 +1,76 @@
+import { type RefObject, useEffect, useRef } from "react";
+
+// Elements that can receive keyboard focus
+const FOCUSABLE =
+  'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), summary, [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Keyboard behaviour of a modal dialog: moves focus into the dialog when it
+ * opens, keeps Tab and Shift+Tab inside it, closes it on Escape and returns
+ * focus to where it was when it closes
+ * @param open - Whether the dialog is shown
+ * @param onClose - Called on Escape
+ * @param returnFocusRef - Focused on close when the element that opened the
+ * dialog is gone, e.g. a button replaced while the dialog was open
+ * @returns Ref to attach to the dialog element
+ */
+export function useModalDialog<T extends HTMLElement>(
+  open: boolean,
+  onClose: () => void,
+  returnFocusRef?: RefObject<HTMLElement | null>
+): RefObject<T | null> {
+  const dialogRef = useRef<T>(null);
+  // Latest callback without re-running the effect, which would move focus
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    if (!open) return;
+    const dialog = dialogRef.current;
+    const opener = document.activeElement as HTMLElement | null;
+
+    const focusable = () =>
+      Array.from(dialog?.querySelectorAll<HTMLElement>(FOCUSABLE) ?? []);
+    (focusable()[0] ?? dialog)?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        onCloseRef.current();
+        return;
+      }
+      if (e.key !== "Tab") return;
+
+      const items = focusable();
+      if (items.length === 0) {
+        e.preventDefault();
+        return;
+      }
+      const first = items[0];
+      const last = items[items.length - 1];
+      const active = document.activeElement;
+      if (!dialog?.contains(active)) {
+        e.preventDefault();
+        first.focus();
+      } else if (e.shiftKey && active === first) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && active === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+      // The fallback is read on close on purpose: it may have been rendered
+      // while the dialog was open
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+      const target = opener?.isConnected ? opener : returnFocusRef?.current;
+      target?.focus();
+    };
+  }, [open, returnFocusRef]);
+
+  return dialogRef;
+}
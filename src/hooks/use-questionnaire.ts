@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import { loadQuestionnaire } from "@/lib/feedback-questionnaire";
+import type { Questionnaire } from "@/lib/questionnaire";
+
+/**
+ * Returns the feedback questionnaire of the current study, or null while it
+ * loads so answers are never given to the wrong instrument
+ */
+export function useQuestionnaire(): Questionnaire | null {
+  const [questionnaire, setQuestionnaire] = useState<Questionnaire | null>(
+    null
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    loadQuestionnaire().then((loaded) => {
+      if (!cancelled) setQuestionnaire(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return questionnaire;
+}
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  RESEARCHER_QUERY_PARAM,
+  isResearcherModeUnlocked,
+  lockResearcherMode,
+  unlockResearcherMode,
+} from "@/lib/researcher-mode";
+
+/**
+ * Researcher mode state of this browser tab. A passphrase in the `researcher`
+ * query parameter unlocks it and is then removed from the address bar.
+ */
+export function useResearcherMode() {
+  const [enabled, setEnabled] = useState(false);
+
+  useEffect(() => {
+    setEnabled(isResearcherModeUnlocked());
+
+    const url = new URL(window.location.href);
+    const passphrase = url.searchParams.get(RESEARCHER_QUERY_PARAM);
+    if (passphrase === null) return;
+
+    // Keep the passphrase out of the history and of shared links
+    url.searchParams.delete(RESEARCHER_QUERY_PARAM);
+    window.history.replaceState(window.history.state, "", url);
+
+    unlockResearcherMode(passphrase).then((unlocked) => {
+      if (unlocked) {
+        setEnabled(true);
+      } else {
+        console.warn("Researcher passphrase rejected");
+      }
+    });
+  }, []);
+
+  const exit = useCallback(() => {
+    lockResearcherMode();
+    setEnabled(false);
+  }, []);
+
+  return { enabled, exit };
+}
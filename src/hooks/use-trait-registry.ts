@@ -0,0 +1,26 @@
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_TRAIT_REGISTRY,
+  type TraitRegistry,
+  loadTraitRegistry,
+} from "@/lib/traits";
+
+/**
+ * Returns the trait registry of the current study. Renders with the
+ * built-in traits until the configured registry has loaded.
+ */
+export function useTraitRegistry(): TraitRegistry {
+  const [registry, setRegistry] = useState(DEFAULT_TRAIT_REGISTRY);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTraitRegistry().then((loaded) => {
+      if (!cancelled) setRegistry(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return registry;
+}
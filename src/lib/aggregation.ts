@@ -0,0 +1,123 @@
+import type { TraitData } from "@/lib/types";
+
+/**
+ * How the assessments of a trait are combined into its final score
+ */
+export type AggregationMethod =
+  | "mean"
+  | "latest"
+  | "confidence_weighted"
+  | "exponential_decay";
+
+/**
+ * Aggregation chosen by the study
+ */
+export interface AggregationConfig {
+  method: AggregationMethod;
+  halfLife: number; // Assessments after which a score's weight halves, for exponential_decay
+}
+
+/**
+ * Final score of one trait
+ */
+export interface AggregatedTraitScore {
+  trait: string;
+  score: number;
+  confidence: number;
+}
+
+export const AGGREGATION_LABELS: Record<AggregationMethod, string> = {
+  mean: "Mean of all assessments",
+  latest: "Latest assessment",
+  confidence_weighted: "Confidence-weighted mean",
+  exponential_decay: "Exponentially decayed mean",
+};
+
+export const DEFAULT_AGGREGATION: AggregationConfig = {
+  method: "mean",
+  halfLife: 1,
+};
+
+/**
+ * Checks a method name read from a config file or the backend
+ */
+export function isAggregationMethod(
+  method: string
+): method is AggregationMethod {
+  return Object.hasOwn(AGGREGATION_LABELS, method);
+}
+
+/**
+ * Weighted mean of the scores and confidences, or undefined if every
+ * weight is zero
+ */
+function weightedMean(assessments: TraitData[], weights: number[]) {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) return undefined;
+
+  let score = 0;
+  let confidence = 0;
+  assessments.forEach((data, index) => {
+    score += (data.score as number) * weights[index];
+    confidence += (data.confidence || 0) * weights[index];
+  });
+  return { score: score / total, confidence: confidence / total };
+}
+
+type Strategy = (
+  assessments: TraitData[], // Scored assessments of one trait, oldest first
+  config: AggregationConfig
+) => { score: number; confidence: number };
+
+const mean: Strategy = (assessments) =>
+  weightedMean(
+    assessments,
+    assessments.map(() => 1)
+  ) as { score: number; confidence: number };
+
+const STRATEGIES: Record<AggregationMethod, Strategy> = {
+  mean,
+  latest: (assessments) => {
+    const latest = assessments[assessments.length - 1];
+    return {
+      score: latest.score as number,
+      confidence: latest.confidence || 0,
+    };
+  },
+  // Falls back to the plain mean when no assessment reported a confidence
+  confidence_weighted: (assessments, config) =>
+    weightedMean(
+      assessments,
+      assessments.map((data) => data.confidence || 0)
+    ) ?? mean(assessments, config),
+  exponential_decay: (assessments, config) =>
+    weightedMean(
+      assessments,
+      assessments.map(
+        (_, index) =>
+          0.5 ** ((assessments.length - 1 - index) / config.halfLife)
+      )
+    ) as { score: number; confidence: number },
+};
+
+/**
+ * Combines the scored assessments of every trait into one score per trait
+ * @param traitData - All trait assessments of the session, in order of arrival
+ * @param config - Aggregation chosen by the study
+ * @returns One entry per assessed trait, in order of first assessment
+ */
+export function aggregateTraitScores(
+  traitData: TraitData[],
+  config: AggregationConfig
+): AggregatedTraitScore[] {
+  const byTrait = new Map<string, TraitData[]>();
+  traitData.forEach((data) => {
+    if (data.score === undefined) return;
+    byTrait.set(data.trait, [...(byTrait.get(data.trait) ?? []), data]);
+  });
+
+  return Array.from(byTrait, ([trait, assessments]) => ({
+    trait,
+    ...STRATEGIES[config.method](assessments, config),
+  }));
+}
@@ -0,0 +1,372 @@
+import { ApiConfigError, ApiContractError, ApiError } from "./errors";
+import {
+  type BackendState,
+  type ChatResponse,
+  type PersonaResponse,
+  type StartSessionResponse,
+  type TraitRegistryResponse,
+  type WithdrawalReceiptResponse,
+  type WithdrawalStatusResponse,
+  parseChatResponse,
+  parseChatStreamFrame,
+  parsePersonaResponse,
+  parseStartSessionResponse,
+  parseTraitRegistryResponse,
+  parseWithdrawalReceiptResponse,
+  parseWithdrawalStatusResponse,
+} from "./schema";
+import { readNdjson, readServerSentEvents } from "./stream";
+
+// The built-in mock backend (src/app/api/mock) is only used when explicitly
+// requested, a missing backend URL must not send a study to it
+const USE_MOCK_API = process.env.NEXT_PUBLIC_USE_MOCK_API === "true";
+
+// Base URL for backend API from environment variable
+const API_BASE = USE_MOCK_API ? "/api/mock" : process.env.NEXT_PUBLIC_API_URL;
+// const API_BASE=  "http://localhost:8000"
+
+if (USE_MOCK_API && typeof window !== "undefined") {
+  console.warn("Using the built-in mock backend at /api/mock");
+}
+
+// Streaming can be switched off when the backend or a proxy in front of it
+// does not cope with long-lived responses
+const CHAT_STREAMING = process.env.NEXT_PUBLIC_CHAT_STREAMING !== "false";
+
+/**
+ * Identifies the participant and the assessment session on every request
+ */
+export interface SessionIds {
+  user_id: string | null;
+  session_id: string | null;
+}
+
+/**
+ * A single chat turn sent to /chat
+ */
+export interface ChatRequest {
+  message: string; // Text entered by the user
+  state: BackendState | null; // Backend state from the previous turn, null on the first turn
+  client_message_id: string; // Stable id of the user message, lets the backend ignore retried duplicates
+  locale: string; // UI language, e.g. "hi"; the backend answers in the same language
+  replaces_message_id?: string; // Set when the message is an edit, id of the answer it supersedes
+  terminate?: boolean; // The participant asked to end the chat, e.g. with /end
+}
+
+/**
+ * Feedback form submission sent to /feedback
+ */
+export interface FeedbackRequest {
+  responses: Record<string, string>; // Answers keyed by question text
+  questionnaire: { id: string; version: string }; // Instrument that was answered
+  cuq_score?: number; // Chatbot Usability Questionnaire score, 0-100, if the instrument has CUQ items
+  quality: FeedbackQuality; // Data-quality checks, lets low-quality responses be filtered out
+}
+
+/**
+ * Data-quality flags of a feedback submission
+ */
+export interface FeedbackQuality {
+  flags: string[]; // "straight_lining", "inconsistent_pairs" and/or "too_fast"
+  straight_lining: boolean;
+  inconsistent_pairs: [string, string][]; // Ids of contradicting positive/negative items
+  duration_seconds: number; // Time spent on the form
+}
+
+/**
+ * Consent decision sent to /consent
+ */
+export interface ConsentRequest {
+  consent_version: string; // Version of the consent text that was shown
+  locale: string; // Language the consent text was shown in, e.g. "hi"
+  consented_at: string; // ISO timestamp of the decision
+}
+
+/**
+ * Final trait scores shown to the participant, sent along with /persona so
+ * the backend records how they were computed
+ */
+export interface TraitScoresSummary {
+  method: string; // Aggregation method, e.g. "confidence_weighted"
+  half_life?: number; // Only for "exponential_decay"
+  scores: Record<string, { score: number; confidence: number }>; // Keyed by trait
+}
+
+/**
+ * Sends a request to the backend, with a JSON body if one is given.
+ * Network failures and non-2xx statuses are raised as ApiError, a missing
+ * backend URL as ApiConfigError so pages still render their error state.
+ */
+async function send(
+  method: "GET" | "POST",
+  endpoint: string,
+  body?: unknown,
+  headers?: Record<string, string>
+): Promise<Response> {
+  if (!API_BASE) throw new ApiConfigError(endpoint);
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}${endpoint}`, {
+      method,
+      headers: {
+        ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+        ...headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch (error) {
+    throw new ApiError(
+      endpoint,
+      `Could not reach ${endpoint}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  if (!response.ok) {
+    throw new ApiError(
+      endpoint,
+      `HTTP error! status: ${response.status}`,
+      response.status
+    );
+  }
+
+  return response;
+}
+
+/**
+ * POSTs a JSON body to the backend
+ */
+function post(
+  endpoint: string,
+  body?: unknown,
+  headers?: Record<string, string>
+): Promise<Response> {
+  return send("POST", endpoint, body, headers);
+}
+
+/**
+ * Decodes a JSON response body, raising ApiError if it is not JSON
+ */
+async function readJson(endpoint: string, response: Response) {
+  try {
+    return await response.json();
+  } catch {
+    throw new ApiError(
+      endpoint,
+      `Response from ${endpoint} is not valid JSON`,
+      response.status
+    );
+  }
+}
+
+/**
+ * POSTs a JSON body to the backend and returns the decoded JSON response
+ */
+async function postJson(endpoint: string, body?: unknown): Promise<unknown> {
+  return readJson(endpoint, await post(endpoint, body));
+}
+
+/**
+ * GETs a backend resource and returns the decoded JSON response
+ */
+async function getJson(endpoint: string): Promise<unknown> {
+  return readJson(endpoint, await send("GET", endpoint));
+}
+
+/**
+ * Creates a new user and assessment session in the database
+ */
+export async function startSession(): Promise<StartSessionResponse> {
+  const endpoint = "/start-session";
+  return parseStartSessionResponse(endpoint, await postJson(endpoint));
+}
+
+/**
+ * Sends a user message along with the current assessment state
+ * @param ids - Current user and session ids
+ * @param request - Message and the state it answers
+ */
+export async function sendChatMessage(
+  ids: SessionIds,
+  request: ChatRequest
+): Promise<ChatResponse> {
+  const endpoint = "/chat";
+  const data = await postJson(endpoint, {
+    ...ids,
+    ...request,
+  });
+  return parseChatResponse(endpoint, data);
+}
+
+/**
+ * Sends a user message and streams the AI reply as it is generated. The
+ * backend may answer with server-sent events, chunked NDJSON or, if it does
+ * not support streaming, a plain JSON body; all three resolve to the same
+ * ChatResponse once the reply is complete.
+ * @param ids - Current user and session ids
+ * @param request - Message and the state it answers
+ * @param onToken - Called with each chunk of reply text as it arrives
+ */
+export async function streamChatMessage(
+  ids: SessionIds,
+  request: ChatRequest,
+  onToken: (token: string) => void
+): Promise<ChatResponse> {
+  if (!CHAT_STREAMING) {
+    return sendChatMessage(ids, request);
+  }
+
+  const endpoint = "/chat";
+  const response = await post(
+    endpoint,
+    { ...ids, ...request },
+    { Accept: "text/event-stream, application/x-ndjson, application/json" }
+  );
+
+  const contentType = response.headers.get("Content-Type") ?? "";
+  const frames = !response.body
+    ? null
+    : contentType.includes("text/event-stream")
+    ? readServerSentEvents(response.body)
+    : contentType.includes("application/x-ndjson")
+    ? readNdjson(response.body)
+    : null;
+
+  // Non-streaming backend: fall back to the regular JSON response
+  if (!frames) {
+    return parseChatResponse(endpoint, await readJson(endpoint, response));
+  }
+
+  let final: ChatResponse | null = null;
+  try {
+    for await (const payload of frames) {
+      let data: unknown;
+      try {
+        data = JSON.parse(payload);
+      } catch {
+        throw new ApiContractError(
+          endpoint,
+          "stream frame",
+          "is not valid JSON"
+        );
+      }
+
+      const frame = parseChatStreamFrame(endpoint, data);
+      if (frame.type === "token") {
+        onToken(frame.content);
+      } else if (frame.type === "error") {
+        throw new ApiError(endpoint, frame.message, response.status);
+      } else {
+        final = {
+          response: frame.response,
+          updated_state: frame.updated_state,
+          terminated: frame.terminated,
+        };
+        break;
+      }
+    }
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    throw new ApiError(
+      endpoint,
+      `Stream from ${endpoint} was interrupted: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  if (!final) {
+    throw new ApiContractError(
+      endpoint,
+      "stream",
+      "ended without a final frame"
+    );
+  }
+  return final;
+}
+
+/**
+ * Generates the financial persona for the assessment collected so far
+ * @param ids - Current user and session ids
+ * @param state - Latest backend state
+ * @param traitScores - Aggregated scores and the method that produced them
+ */
+export async function generatePersona(
+  ids: SessionIds,
+  state: BackendState,
+  traitScores: TraitScoresSummary
+): Promise<PersonaResponse> {
+  const endpoint = "/persona";
+  const data = await postJson(endpoint, {
+    state,
+    trait_scores: traitScores,
+    ...ids,
+  });
+  return parsePersonaResponse(endpoint, data);
+}
+
+/**
+ * Records that the participant consented to the study
+ * @param ids - User and session ids the consent belongs to
+ * @param consent - Version of the consent text and when it was accepted
+ */
+export async function recordConsent(
+  ids: SessionIds,
+  consent: ConsentRequest
+): Promise<void> {
+  await post("/consent", {
+    ...consent,
+    consented: true,
+    ...ids,
+  });
+}
+
+/**
+ * Stores the participant's feedback form answers
+ * @param ids - User and session ids the feedback belongs to
+ * @param feedback - Answers and the questionnaire they answer
+ */
+export async function submitFeedback(
+  ids: SessionIds,
+  feedback: FeedbackRequest
+): Promise<void> {
+  await post("/feedback", {
+    ...feedback,
+    ...ids,
+  });
+}
+
+/**
+ * Fetches the trait definitions the backend assesses
+ */
+export async function fetchTraitRegistry(): Promise<TraitRegistryResponse> {
+  const endpoint = "/traits";
+  return parseTraitRegistryResponse(endpoint, await getJson(endpoint));
+}
+
+/**
+ * Looks up a participant's session and consent, before withdrawing it
+ * @param userId - User ID shown to the participant after the feedback form
+ */
+export async function getWithdrawalStatus(
+  userId: string
+): Promise<WithdrawalStatusResponse> {
+  const endpoint = `/withdrawal/${encodeURIComponent(userId)}`;
+  return parseWithdrawalStatusResponse(endpoint, await getJson(endpoint));
+}
+
+/**
+ * Withdraws a participant's consent, so their data is deleted. The backend
+ * answers 403 once the withdrawal window has closed and 409 if consent was
+ * already withdrawn.
+ * @param userId - User ID shown to the participant after the feedback form
+ */
+export async function withdrawConsent(
+  userId: string
+): Promise<WithdrawalReceiptResponse> {
+  const endpoint = "/withdrawal";
+  const data = await postJson(endpoint, { user_id: userId });
+  return parseWithdrawalReceiptResponse(endpoint, data);
+}
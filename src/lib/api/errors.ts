@@ -0,0 +1,62 @@
+/**
+ * Raised when a request to the assessment backend fails, either because the
+ * network call itself failed or because the server answered with a non-2xx
+ * status code.
+ */
+export class ApiError extends Error {
+  endpoint: string;
+  status?: number; // HTTP status, undefined for network failures
+
+  constructor(endpoint: string, message: string, status?: number) {
+    super(message);
+    this.name = "ApiError";
+    this.endpoint = endpoint;
+    this.status = status;
+  }
+
+  /**
+   * Whether repeating the same request may succeed: network failures,
+   * rate limiting and server errors are transient, anything else is not
+   */
+  get retryable() {
+    return (
+      this.status === undefined || this.status === 429 || this.status >= 500
+    );
+  }
+}
+
+/**
+ * Raised when the backend answers successfully but the payload does not match
+ * the contract the frontend relies on (missing field, wrong type, ...)
+ */
+export class ApiContractError extends ApiError {
+  path: string; // Location of the offending value, e.g. "updated_state.awareness_score[2]"
+
+  constructor(endpoint: string, path: string, message: string) {
+    super(endpoint, `Unexpected response from ${endpoint}: ${path} ${message}`);
+    this.name = "ApiContractError";
+    this.path = path;
+  }
+
+  get retryable() {
+    return false;
+  }
+}
+
+/**
+ * Raised on every request when no backend is configured: neither
+ * NEXT_PUBLIC_API_URL nor NEXT_PUBLIC_USE_MOCK_API is set
+ */
+export class ApiConfigError extends ApiError {
+  constructor(endpoint: string) {
+    super(
+      endpoint,
+      "NEXT_PUBLIC_API_URL is not set. Point it at the backend, or set NEXT_PUBLIC_USE_MOCK_API=true to use the mock backend."
+    );
+    this.name = "ApiConfigError";
+  }
+
+  get retryable() {
+    return false;
+  }
+}
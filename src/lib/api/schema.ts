@@ -0,0 +1,496 @@
+import { ApiContractError } from "./errors";
+
+/**
+ * Assessment state returned by the backend as `updated_state` and sent back
+ * untouched with the next request. Per-trait data is stored in parallel
+ * arrays named `<trait>_score`, `<trait>_confidence`, `<trait>_sentences`
+ * and `<trait>_rationale`, one entry per assessment of that trait.
+ */
+export interface BackendState {
+  [key: `${string}_score`]: number[] | undefined; // Scores from 1-5
+  [key: `${string}_confidence`]: number[] | undefined; // Confidence levels from 1-10
+  [key: `${string}_sentences`]: string[] | undefined; // Assessment descriptions
+  [key: `${string}_rationale`]: string[] | undefined; // Reasoning behind each assessment
+  current_priority?: string | null; // Trait currently being assessed
+  current_iteration?: number | null; // Current iteration of assessment
+  continue_conversation: boolean; // False once the backend has finished the assessment
+  persona?: string | null; // Final persona, set when the conversation ends
+  [key: string]: unknown; // Any other backend bookkeeping, passed through as-is
+}
+
+/**
+ * All assessments recorded for a single trait in the backend state
+ */
+export interface TraitSeries {
+  scores: number[];
+  confidences: number[];
+  sentences: string[];
+  rationales: string[];
+}
+
+export interface StartSessionResponse {
+  user_id: string;
+  session_id: string;
+}
+
+export interface ChatResponse {
+  response: string; // AI reply shown to the user
+  updated_state: BackendState;
+  terminated: boolean; // The backend ended the chat, the reply may then be empty
+}
+
+/**
+ * Persona sent by backends that return it as JSON instead of free text
+ */
+export interface StructuredPersona {
+  summary?: string;
+  strengths?: string[];
+  opportunities?: string[]; // Opportunities to improve
+  trait_notes?: Record<string, string>; // Note per trait key
+}
+
+export interface PersonaResponse {
+  response: string | StructuredPersona; // Generated persona, text or structured
+}
+
+/**
+ * Reads the per-trait arrays out of the backend state
+ * @param state - Backend state as returned by /chat
+ * @param trait - Trait key in snake_case, e.g. "self_control"
+ */
+export function getTraitSeries(state: BackendState, trait: string): TraitSeries {
+  return {
+    scores: state[`${trait}_score`] ?? [],
+    confidences: state[`${trait}_confidence`] ?? [],
+    sentences: state[`${trait}_sentences`] ?? [],
+    rationales: state[`${trait}_rationale`] ?? [],
+  };
+}
+
+// Runtime validators. Each one either returns the value narrowed to the
+// expected type or throws an ApiContractError pointing at the bad field.
+
+type Json = unknown;
+
+function describe(value: Json) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  return `a ${typeof value}`;
+}
+
+function expectObject(endpoint: string, path: string, value: Json) {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new ApiContractError(
+      endpoint,
+      path,
+      `should be an object but was ${describe(value)}`
+    );
+  }
+  return value as Record<string, Json>;
+}
+
+function expectString(endpoint: string, path: string, value: Json) {
+  if (typeof value !== "string") {
+    throw new ApiContractError(
+      endpoint,
+      path,
+      `should be a string but was ${describe(value)}`
+    );
+  }
+  return value;
+}
+
+function expectBoolean(endpoint: string, path: string, value: Json) {
+  if (typeof value !== "boolean") {
+    throw new ApiContractError(
+      endpoint,
+      path,
+      `should be a boolean but was ${describe(value)}`
+    );
+  }
+  return value;
+}
+
+function expectId(endpoint: string, path: string, value: Json) {
+  // Ids may be serialized as numbers by the database layer
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  const id = expectString(endpoint, path, value);
+  if (!id) {
+    throw new ApiContractError(endpoint, path, "should not be empty");
+  }
+  return id;
+}
+
+function expectArray<T>(
+  endpoint: string,
+  path: string,
+  value: Json,
+  item: "number" | "string"
+) {
+  if (!Array.isArray(value)) {
+    throw new ApiContractError(
+      endpoint,
+      path,
+      `should be an array but was ${describe(value)}`
+    );
+  }
+  value.forEach((entry, index) => {
+    const valid =
+      item === "number"
+        ? typeof entry === "number" && Number.isFinite(entry)
+        : typeof entry === "string";
+    if (!valid) {
+      throw new ApiContractError(
+        endpoint,
+        `${path}[${index}]`,
+        `should be a ${item} but was ${describe(entry)}`
+      );
+    }
+  });
+  return value as T[];
+}
+
+function expectOptional<T>(
+  value: Json,
+  check: (value: Json) => T
+): T | null | undefined {
+  if (value === undefined || value === null) return value;
+  return check(value);
+}
+
+/**
+ * Validates the `updated_state` object returned by /chat
+ */
+export function parseBackendState(
+  endpoint: string,
+  value: Json,
+  path = "updated_state"
+): BackendState {
+  const state = expectObject(endpoint, path, value);
+
+  if (typeof state.continue_conversation !== "boolean") {
+    throw new ApiContractError(
+      endpoint,
+      `${path}.continue_conversation`,
+      `should be a boolean but was ${describe(state.continue_conversation)}`
+    );
+  }
+
+  expectOptional(state.current_priority, (v) =>
+    expectString(endpoint, `${path}.current_priority`, v)
+  );
+  expectOptional(state.current_iteration, (v) => {
+    if (typeof v !== "number") {
+      throw new ApiContractError(
+        endpoint,
+        `${path}.current_iteration`,
+        `should be a number but was ${describe(v)}`
+      );
+    }
+    return v;
+  });
+  expectOptional(state.persona, (v) =>
+    expectString(endpoint, `${path}.persona`, v)
+  );
+
+  // Every per-trait array must hold values of the right type
+  Object.entries(state).forEach(([key, entry]) => {
+    if (entry === undefined || entry === null) return;
+    if (key.endsWith("_score") || key.endsWith("_confidence")) {
+      expectArray<number>(endpoint, `${path}.${key}`, entry, "number");
+    } else if (key.endsWith("_sentences") || key.endsWith("_rationale")) {
+      expectArray<string>(endpoint, `${path}.${key}`, entry, "string");
+    }
+  });
+
+  return state as BackendState;
+}
+
+export function parseStartSessionResponse(
+  endpoint: string,
+  value: Json
+): StartSessionResponse {
+  const body = expectObject(endpoint, "response body", value);
+  return {
+    user_id: expectId(endpoint, "user_id", body.user_id),
+    session_id: expectId(endpoint, "session_id", body.session_id),
+  };
+}
+
+export function parseChatResponse(endpoint: string, value: Json): ChatResponse {
+  const body = expectObject(endpoint, "response body", value);
+  const response = expectString(endpoint, "response", body.response);
+  const terminated = expectOptional(body.terminated, (v) =>
+    expectBoolean(endpoint, "terminated", v)
+  );
+  // Older backends signal the end by replying with the bare word
+  // "terminate" instead of setting the flag
+  const legacyTerminate = terminated == null && response === "terminate";
+  return {
+    response: legacyTerminate ? "" : response,
+    updated_state: parseBackendState(endpoint, body.updated_state),
+    terminated: legacyTerminate || terminated === true,
+  };
+}
+
+export function parsePersonaResponse(
+  endpoint: string,
+  value: Json
+): PersonaResponse {
+  const body = expectObject(endpoint, "response body", value);
+  if (typeof body.response === "string") {
+    return { response: body.response };
+  }
+
+  const persona = expectObject(endpoint, "response", body.response);
+  const notes = expectOptional(persona.trait_notes, (v) =>
+    expectObject(endpoint, "response.trait_notes", v)
+  );
+  return {
+    response: {
+      summary:
+        expectOptional(persona.summary, (v) =>
+          expectString(endpoint, "response.summary", v)
+        ) ?? undefined,
+      strengths:
+        expectOptional(persona.strengths, (v) =>
+          expectArray<string>(endpoint, "response.strengths", v, "string")
+        ) ?? undefined,
+      opportunities:
+        expectOptional(persona.opportunities, (v) =>
+          expectArray<string>(endpoint, "response.opportunities", v, "string")
+        ) ?? undefined,
+      trait_notes: notes
+        ? Object.fromEntries(
+            Object.entries(notes).map(([trait, note]) => [
+              trait,
+              expectString(endpoint, `response.trait_notes.${trait}`, note),
+            ])
+          )
+        : undefined,
+    },
+  };
+}
+
+/**
+ * One frame of a streamed /chat response. The backend sends any number of
+ * token frames followed by exactly one final frame carrying the complete
+ * reply and the updated state, or an error frame if generation failed.
+ */
+export type ChatStreamFrame =
+  | { type: "token"; content: string }
+  | ({ type: "final" } & ChatResponse)
+  | { type: "error"; message: string };
+
+export function parseChatStreamFrame(
+  endpoint: string,
+  value: Json
+): ChatStreamFrame {
+  const frame = expectObject(endpoint, "stream frame", value);
+  switch (frame.type) {
+    case "token":
+      return {
+        type: "token",
+        content: expectString(endpoint, "stream frame.content", frame.content),
+      };
+    case "final":
+      return { type: "final", ...parseChatResponse(endpoint, frame) };
+    case "error":
+      return {
+        type: "error",
+        message: expectString(endpoint, "stream frame.message", frame.message),
+      };
+    default:
+      throw new ApiContractError(
+        endpoint,
+        "stream frame.type",
+        `should be "token", "final" or "error" but was ${JSON.stringify(
+          frame.type
+        )}`
+      );
+  }
+}
+
+/**
+ * Range of a trait's score or confidence scale
+ */
+export interface TraitScale {
+  min: number;
+  max: number;
+}
+
+/**
+ * Trait definition as served by /traits or a trait registry config file
+ */
+export interface TraitDefinitionResponse {
+  key: string; // Prefix of the `<key>_score` etc. fields in the backend state
+  label: string; // Display name
+  description?: string;
+  score_scale?: TraitScale; // Defaults to 1-5
+  confidence_scale?: TraitScale; // Defaults to 1-10
+}
+
+/**
+ * How trait assessments are combined into final scores
+ */
+export interface AggregationConfigResponse {
+  method: string; // "mean", "latest", "confidence_weighted" or "exponential_decay"
+  half_life?: number; // Assessments after which a score's weight halves, for exponential_decay
+}
+
+export interface TraitRegistryResponse {
+  traits: TraitDefinitionResponse[];
+  min_traits_for_persona?: number; // Defaults to all traits
+  aggregation?: AggregationConfigResponse; // Defaults to the mean
+}
+
+function expectNumber(endpoint: string, path: string, value: Json) {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new ApiContractError(
+      endpoint,
+      path,
+      `should be a number but was ${describe(value)}`
+    );
+  }
+  return value;
+}
+
+function parseTraitScale(endpoint: string, path: string, value: Json) {
+  const scale = expectObject(endpoint, path, value);
+  const min = expectNumber(endpoint, `${path}.min`, scale.min);
+  const max = expectNumber(endpoint, `${path}.max`, scale.max);
+  if (max <= min) {
+    throw new ApiContractError(endpoint, `${path}.max`, "should exceed min");
+  }
+  return { min, max };
+}
+
+function parseAggregationConfig(endpoint: string, value: Json) {
+  const config = expectObject(endpoint, "aggregation", value);
+  const halfLife = expectOptional(config.half_life, (v) =>
+    expectNumber(endpoint, "aggregation.half_life", v)
+  );
+  if (halfLife != null && halfLife <= 0) {
+    throw new ApiContractError(
+      endpoint,
+      "aggregation.half_life",
+      "should be positive"
+    );
+  }
+  return {
+    method: expectString(endpoint, "aggregation.method", config.method),
+    half_life: halfLife ?? undefined,
+  };
+}
+
+export function parseTraitRegistryResponse(
+  endpoint: string,
+  value: Json
+): TraitRegistryResponse {
+  const body = expectObject(endpoint, "response body", value);
+  if (!Array.isArray(body.traits) || body.traits.length === 0) {
+    throw new ApiContractError(
+      endpoint,
+      "traits",
+      "should be a non-empty array"
+    );
+  }
+
+  const traits = body.traits.map((entry: Json, index: number) => {
+    const path = `traits[${index}]`;
+    const trait = expectObject(endpoint, path, entry);
+    return {
+      key: expectId(endpoint, `${path}.key`, trait.key),
+      label: expectString(endpoint, `${path}.label`, trait.label),
+      description:
+        expectOptional(trait.description, (v) =>
+          expectString(endpoint, `${path}.description`, v)
+        ) ?? undefined,
+      score_scale:
+        expectOptional(trait.score_scale, (v) =>
+          parseTraitScale(endpoint, `${path}.score_scale`, v)
+        ) ?? undefined,
+      confidence_scale:
+        expectOptional(trait.confidence_scale, (v) =>
+          parseTraitScale(endpoint, `${path}.confidence_scale`, v)
+        ) ?? undefined,
+    };
+  });
+
+  return {
+    traits,
+    min_traits_for_persona:
+      expectOptional(body.min_traits_for_persona, (v) =>
+        expectNumber(endpoint, "min_traits_for_persona", v)
+      ) ?? undefined,
+    aggregation:
+      expectOptional(body.aggregation, (v) =>
+        parseAggregationConfig(endpoint, v)
+      ) ?? undefined,
+  };
+}
+
+/**
+ * A participant's session and consent as returned by GET /withdrawal/<user_id>
+ */
+export interface WithdrawalStatusResponse {
+  user_id: string;
+  session_started_at: string; // ISO timestamp, the withdrawal window starts here
+  withdrawn_at: string | null; // ISO timestamp, null while consent stands
+}
+
+/**
+ * Receipt returned by POST /withdrawal
+ */
+export interface WithdrawalReceiptResponse {
+  receipt_id: string; // Reference to quote when contacting the researchers
+  user_id: string;
+  withdrawn_at: string; // ISO timestamp
+  delete_by: string; // ISO timestamp by which the data will be deleted
+}
+
+function expectTimestamp(endpoint: string, path: string, value: Json) {
+  const text = expectString(endpoint, path, value);
+  if (Number.isNaN(new Date(text).getTime())) {
+    throw new ApiContractError(
+      endpoint,
+      path,
+      `should be an ISO timestamp but was "${text}"`
+    );
+  }
+  return text;
+}
+
+export function parseWithdrawalStatusResponse(
+  endpoint: string,
+  value: Json
+): WithdrawalStatusResponse {
+  const body = expectObject(endpoint, "response body", value);
+  return {
+    user_id: expectId(endpoint, "user_id", body.user_id),
+    session_started_at: expectTimestamp(
+      endpoint,
+      "session_started_at",
+      body.session_started_at
+    ),
+    withdrawn_at:
+      expectOptional(body.withdrawn_at, (v) =>
+        expectTimestamp(endpoint, "withdrawn_at", v)
+      ) ?? null,
+  };
+}
+
+export function parseWithdrawalReceiptResponse(
+  endpoint: string,
+  value: Json
+): WithdrawalReceiptResponse {
+  const body = expectObject(endpoint, "response body", value);
+  return {
+    receipt_id: expectId(endpoint, "receipt_id", body.receipt_id),
+    user_id: expectId(endpoint, "user_id", body.user_id),
+    withdrawn_at: expectTimestamp(endpoint, "withdrawn_at", body.withdrawn_at),
+    delete_by: expectTimestamp(endpoint, "delete_by", body.delete_by),
+  };
+}
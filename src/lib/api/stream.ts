@@ -0,0 +1,56 @@
+/**
+ * Reads a response body as text and yields it line by line, keeping partial
+ * lines buffered until the rest of the line arrives.
+ */
+async function* readLines(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf("\n");
+      while (newline !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, "");
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf("\n");
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer.replace(/\r$/, "");
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Yields the JSON payload of every line of a chunked NDJSON body
+ */
+export async function* readNdjson(body: ReadableStream<Uint8Array>) {
+  for await (const line of readLines(body)) {
+    if (line.trim()) yield line;
+  }
+}
+
+/**
+ * Yields the `data` payload of every server-sent event. Multi-line data
+ * fields are joined with newlines; comments and other fields are ignored.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>) {
+  let data: string[] = [];
+
+  for await (const line of readLines(body)) {
+    if (line === "") {
+      // A blank line terminates the event
+      if (data.length > 0) yield data.join("\n");
+      data = [];
+    } else if (line.startsWith("data:")) {
+      data.push(line.slice(5).replace(/^ /, ""));
+    }
+  }
+  if (data.length > 0) yield data.join("\n");
+}
@@ -0,0 +1,234 @@
+import type { CuqScore } from "@/lib/cuq";
+import type { ResponseQuality } from "@/lib/response-quality";
+import { type PersonaReport, parsePersonaText } from "@/lib/persona";
+import type { Answers } from "@/lib/questionnaire";
+import type { ChatState } from "@/lib/types";
+
+const KEY_PREFIX = "assessment-chat:";
+const ACTIVE_SESSION_KEY = `${KEY_PREFIX}active`;
+
+/**
+ * Everything needed to resume an assessment after a page reload
+ */
+export interface StoredChatSession {
+  userId: string;
+  sessionId: string;
+  chatState: ChatState;
+  personaData: PersonaReport | null; // Generated persona, null until generated
+  isTerminated: boolean;
+  shouldContinue: boolean;
+  feedback?: StoredFeedback; // Feedback form answers, once submitted
+  savedAt: string; // ISO timestamp of the last save
+}
+
+/**
+ * Feedback form answers kept with the session for researcher exports
+ */
+export interface StoredFeedback {
+  responses: Record<string, string>; // Answers keyed by question text
+  cuq?: CuqScore; // Usability score with per-dimension sub-scores
+  quality?: ResponseQuality; // Data-quality checks of the answers
+  submittedAt: string; // ISO timestamp
+}
+
+/**
+ * Feedback form answers autosaved while the participant fills in the form
+ */
+export interface FeedbackDraft {
+  questionnaire: { id: string; version: string }; // Instrument the answers belong to
+  answers: Answers; // Keyed by question id
+  startedAt: number; // Epoch ms when the form was first shown
+  savedAt: string; // ISO timestamp of the last save
+}
+
+function sessionKey(sessionId: string) {
+  return `${KEY_PREFIX}${sessionId}`;
+}
+
+function draftKey(sessionId: string) {
+  return `${KEY_PREFIX}feedback-draft:${sessionId}`;
+}
+
+function getStorage(): Storage | null {
+  // localStorage is unavailable during server rendering and may throw when
+  // blocked by browser privacy settings
+  try {
+    return typeof window === "undefined" ? null : window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Turns the ISO strings produced by JSON.stringify back into Date objects
+ */
+function reviveDates(chatState: ChatState): ChatState {
+  return {
+    ...chatState,
+    messages: chatState.messages.map((message) => ({
+      ...message,
+      timestamp: new Date(message.timestamp),
+    })),
+    traitData: chatState.traitData.map((data) => ({
+      ...data,
+      timestamp: data.timestamp ? new Date(data.timestamp) : undefined,
+    })),
+  };
+}
+
+/**
+ * Saves the session and marks it as the one to resume on the next load
+ */
+export function saveSession(
+  session: Omit<StoredChatSession, "savedAt" | "feedback">
+) {
+  const storage = getStorage();
+  if (!storage) return;
+
+  const stored: StoredChatSession = {
+    ...session,
+    // Submitted on the feedback page, not part of the chat state
+    feedback: loadSession(session.sessionId)?.feedback,
+    savedAt: new Date().toISOString(),
+  };
+  try {
+    storage.setItem(sessionKey(session.sessionId), JSON.stringify(stored));
+    storage.setItem(ACTIVE_SESSION_KEY, session.sessionId);
+  } catch (error) {
+    // Quota exceeded or storage disabled: the chat still works, it just
+    // cannot be resumed
+    console.error("Failed to save chat session", error);
+  }
+}
+
+/**
+ * Loads a stored session by id, or the active one when no id is given
+ * @returns The stored session, or null if there is nothing usable to resume
+ */
+export function loadSession(sessionId?: string): StoredChatSession | null {
+  const storage = getStorage();
+  if (!storage) return null;
+
+  const id = sessionId ?? storage.getItem(ACTIVE_SESSION_KEY);
+  if (!id) return null;
+
+  try {
+    const raw = storage.getItem(sessionKey(id));
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as StoredChatSession;
+    if (!stored.userId || !stored.sessionId || !stored.chatState) return null;
+
+    // Sessions saved before personas were parsed hold the raw text
+    const personaData: unknown = stored.personaData;
+    return {
+      ...stored,
+      chatState: reviveDates(stored.chatState),
+      personaData:
+        typeof personaData === "string"
+          ? personaData
+            ? parsePersonaText(personaData)
+            : null
+          : stored.personaData ?? null,
+    };
+  } catch (error) {
+    console.error("Failed to restore chat session", error);
+    return null;
+  }
+}
+
+/**
+ * Removes a stored session so the next load starts a fresh one
+ */
+export function clearSession(sessionId: string) {
+  const storage = getStorage();
+  if (!storage) return;
+
+  storage.removeItem(sessionKey(sessionId));
+  storage.removeItem(draftKey(sessionId));
+  if (storage.getItem(ACTIVE_SESSION_KEY) === sessionId) {
+    storage.removeItem(ACTIVE_SESSION_KEY);
+  }
+}
+
+/**
+ * Records the submitted feedback answers with a stored session
+ * @returns False if the session is not stored in this browser
+ */
+export function saveFeedback(
+  sessionId: string,
+  feedback: Omit<StoredFeedback, "submittedAt">
+) {
+  const storage = getStorage();
+  const stored = loadSession(sessionId);
+  if (!storage || !stored) return false;
+
+  const updated: StoredChatSession = {
+    ...stored,
+    feedback: { ...feedback, submittedAt: new Date().toISOString() },
+  };
+  try {
+    storage.setItem(sessionKey(sessionId), JSON.stringify(updated));
+    return true;
+  } catch (error) {
+    console.error("Failed to save feedback", error);
+    return false;
+  }
+}
+
+/**
+ * Autosaves the feedback form answers of a session. Kept apart from the
+ * session so the form can be resumed even when the chat ran elsewhere.
+ */
+export function saveFeedbackDraft(
+  sessionId: string,
+  draft: Omit<FeedbackDraft, "savedAt">
+) {
+  const storage = getStorage();
+  if (!storage) return;
+
+  try {
+    storage.setItem(
+      draftKey(sessionId),
+      JSON.stringify({ ...draft, savedAt: new Date().toISOString() })
+    );
+  } catch (error) {
+    console.error("Failed to save feedback draft", error);
+  }
+}
+
+/**
+ * Loads the autosaved feedback answers of a session
+ * @returns The draft, or null if there is none or it was written for a
+ * different questionnaire
+ */
+export function loadFeedbackDraft(
+  sessionId: string,
+  questionnaire: { id: string; version: string }
+): FeedbackDraft | null {
+  const storage = getStorage();
+  if (!storage) return null;
+
+  try {
+    const raw = storage.getItem(draftKey(sessionId));
+    if (!raw) return null;
+    const draft = JSON.parse(raw) as FeedbackDraft;
+    if (
+      draft.questionnaire?.id !== questionnaire.id ||
+      draft.questionnaire.version !== questionnaire.version ||
+      typeof draft.answers !== "object"
+    ) {
+      return null;
+    }
+    return draft;
+  } catch (error) {
+    console.error("Failed to restore feedback draft", error);
+    return null;
+  }
+}
+
+/**
+ * Removes the autosaved feedback answers once they are submitted
+ */
+export function clearFeedbackDraft(sessionId: string) {
+  getStorage()?.removeItem(draftKey(sessionId));
+}
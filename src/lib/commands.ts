@@ -0,0 +1,61 @@
+/**
+ * Commands participants can type into the chat instead of a message
+ */
+export type ChatCommand = "end" | "help" | "progress" | "restart";
+
+// Typed as "/<name>", several names can run the same command
+const COMMAND_NAMES = new Map<string, ChatCommand>([
+  ["end", "end"],
+  ["quit", "end"],
+  ["help", "help"],
+  ["progress", "progress"],
+  ["restart", "restart"],
+]);
+
+// Plain words that also end the chat, as the instructions panel has always
+// told participants
+const END_KEYWORDS = ["end", "quit"];
+
+// Commands that discard or close the conversation ask for confirmation first
+export const DESTRUCTIVE_COMMANDS: ReadonlySet<ChatCommand> = new Set([
+  "end",
+  "restart",
+]);
+
+export type ParsedCommand =
+  | { type: "command"; command: ChatCommand }
+  | { type: "unknown"; name: string }; // "/<name>" that is not a command
+
+/**
+ * Recognises a command in the text of the composer. Names are matched
+ * case-insensitively and surrounding whitespace is ignored.
+ * @param text - Text the participant is about to send
+ * @returns The command, or null if the text is an ordinary message
+ */
+export function parseCommand(text: string): ParsedCommand | null {
+  const trimmed = text.trim().toLowerCase();
+
+  if (END_KEYWORDS.includes(trimmed))
+    return { type: "command", command: "end" };
+
+  // A single slash word, so a message like "50/50" or "/ yes" stays a message
+  const match = /^\/([a-z]+)$/.exec(trimmed);
+  if (!match) return null;
+
+  const command = COMMAND_NAMES.get(match[1]);
+  return command
+    ? { type: "command", command }
+    : { type: "unknown", name: match[1] };
+}
+
+/**
+ * Lists the commands for the /help notice
+ * @returns Each command with the names that run it, e.g. ["/end", "/quit"]
+ */
+export function listCommands(): { command: ChatCommand; names: string[] }[] {
+  const commands = new Map<ChatCommand, string[]>();
+  COMMAND_NAMES.forEach((command, name) => {
+    commands.set(command, [...(commands.get(command) ?? []), `/${name}`]);
+  });
+  return Array.from(commands, ([command, names]) => ({ command, names }));
+}
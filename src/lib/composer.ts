@@ -0,0 +1,29 @@
+// Longest message a participant can send, configurable with
+// NEXT_PUBLIC_MAX_MESSAGE_LENGTH
+export const MAX_MESSAGE_LENGTH =
+  Number(process.env.NEXT_PUBLIC_MAX_MESSAGE_LENGTH) > 0
+    ? Number(process.env.NEXT_PUBLIC_MAX_MESSAGE_LENGTH)
+    : 2000;
+
+/**
+ * Cleans text pasted into the composer: Windows and old Mac line endings
+ * become "\n", tabs become spaces, invisible control characters and
+ * zero-width spaces are dropped, trailing spaces are trimmed from each line
+ * and runs of blank lines are collapsed to one. Zero-width (non-)joiners are
+ * kept, Hindi text needs them.
+ */
+export function sanitizePastedText(text: string): string {
+  return (
+    text
+      .replace(/\r\n?/g, "\n")
+      .replace(/\t/g, " ")
+      // C0/C1 control characters except newline, zero-width space, word
+      // joiner and byte order mark
+      .replace(
+        /[\u0000-\u0009\u000B-\u001F\u007F-\u009F\u200B\u2060\uFEFF]/g,
+        ""
+      )
+      .replace(/[ \u00A0]+$/gm, "")
+      .replace(/\n{3,}/g, "\n\n")
+  );
+}
@@ -0,0 +1,84 @@
+import { type Locale, isLocale } from "@/lib/i18n/locale";
+
+// Version of the consent text on the landing page. Bump it whenever the text
+// changes so that earlier consents no longer open the study.
+export const CONSENT_VERSION = "1.1";
+
+// Cookie holding the consent record, read by the middleware
+export const CONSENT_COOKIE = "assessment-consent";
+
+// How long a consent opens the study before it has to be given again
+const CONSENT_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+// consentedAt comes from the participant's clock, which may run ahead of the
+// server's; a fresh consent must still open the study
+const CLOCK_SKEW_TOLERANCE_SECONDS = 24 * 60 * 60;
+
+/**
+ * Consent decision as recorded by the backend
+ */
+export interface ConsentRecord {
+  version: string; // CONSENT_VERSION the participant agreed to
+  locale: Locale; // Language of the consent text the participant read
+  consentedAt: string; // ISO timestamp
+  userId: string;
+  sessionId: string; // Session the consent was recorded for
+}
+
+/**
+ * Parses the consent cookie
+ * @returns The record, or null if it is missing, malformed, expired, for
+ * another version of the consent text or without the language it was read in
+ */
+export function parseConsentCookie(
+  value: string | undefined
+): ConsentRecord | null {
+  if (!value) return null;
+  try {
+    const record = JSON.parse(decodeURIComponent(value)) as ConsentRecord;
+    const age = Date.now() - new Date(record.consentedAt).getTime();
+    if (
+      record.version !== CONSENT_VERSION ||
+      !isLocale(record.locale) ||
+      !record.userId ||
+      !record.sessionId ||
+      !(
+        age >= -CLOCK_SKEW_TOLERANCE_SECONDS * 1000 &&
+        age < CONSENT_MAX_AGE_SECONDS * 1000
+      )
+    ) {
+      return null;
+    }
+    return record;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the consent given in this browser
+ */
+export function readConsent(): ConsentRecord | null {
+  if (typeof document === "undefined") return null;
+  const cookie = document.cookie
+    .split("; ")
+    .find((entry) => entry.startsWith(`${CONSENT_COOKIE}=`));
+  return parseConsentCookie(cookie?.slice(CONSENT_COOKIE.length + 1));
+}
+
+/**
+ * Remembers a consent the backend has recorded, so the protected pages open
+ */
+export function storeConsent(record: ConsentRecord) {
+  document.cookie = `${CONSENT_COOKIE}=${encodeURIComponent(
+    JSON.stringify(record)
+  )}; path=/; max-age=${CONSENT_MAX_AGE_SECONDS}; samesite=lax`;
+}
+
+/**
+ * Forgets the consent given in this browser, e.g. once it is withdrawn, so
+ * the protected pages close again
+ */
+export function clearConsent() {
+  document.cookie = `${CONSENT_COOKIE}=; path=/; max-age=0; samesite=lax`;
+}
@@ -0,0 +1,97 @@
+import type { Answers, Questionnaire } from "@/lib/questionnaire";
+
+/**
+ * Aspects of usability covered by the Chatbot Usability Questionnaire
+ */
+export type CuqDimension =
+  | "personality"
+  | "onboarding"
+  | "navigation"
+  | "understanding"
+  | "responses"
+  | "error_handling";
+
+/**
+ * CUQ result on the 0-100 scale
+ */
+export interface CuqScore {
+  score: number; // Overall usability
+  dimensions: Record<CuqDimension, number>; // Same formula over each dimension's items
+}
+
+// Number of items of the standard questionnaire and points on their scale
+export const CUQ_ITEM_COUNT = 16;
+export const CUQ_SCALE_POINTS = 5;
+
+// Positions (1-based, in standard CUQ order) of each dimension's items
+const DIMENSION_ITEMS: Record<CuqDimension, number[]> = {
+  personality: [1, 2],
+  onboarding: [3, 4, 5, 6],
+  navigation: [7, 8, 15, 16],
+  understanding: [9, 10],
+  responses: [11, 12],
+  error_handling: [13, 14],
+};
+
+export const CUQ_DIMENSION_LABELS: Record<CuqDimension, string> = {
+  personality: "Personality",
+  onboarding: "Onboarding",
+  navigation: "Navigation",
+  understanding: "Understanding",
+  responses: "Responses",
+  error_handling: "Error handling",
+};
+
+/**
+ * Contribution of one item, 0-4. Odd items are positive statements, even
+ * items negative ones and are reverse coded.
+ * @param position - 1-based position of the item in standard CUQ order
+ * @param rating - Answer from 1 (strongly disagree) to 5 (strongly agree)
+ */
+function itemPoints(position: number, rating: number) {
+  return position % 2 === 1 ? rating - 1 : CUQ_SCALE_POINTS - rating;
+}
+
+/**
+ * Scores the CUQ items of a questionnaire:
+ * ((sum of positive items - 8) + (40 - sum of negative items)) / 64 * 100
+ * @returns The score, or null if the questionnaire has no CUQ items or
+ * any of them is unanswered
+ */
+export function scoreCuq(
+  questionnaire: Questionnaire,
+  answers: Answers
+): CuqScore | null {
+  const items = questionnaire.cuq?.items;
+  if (!items || items.length !== CUQ_ITEM_COUNT) return null;
+
+  const points: number[] = [];
+  for (const [index, id] of items.entries()) {
+    const question = questionnaire.sections
+      .flatMap((section) => section.questions)
+      .find((q) => q.id === id);
+    if (question?.type !== "likert") return null;
+
+    const rating =
+      (questionnaire.scales[question.scale] ?? []).indexOf(
+        answers[id] as string
+      ) + 1;
+    if (rating < 1) return null;
+    points.push(itemPoints(index + 1, rating));
+  }
+
+  const normalize = (positions: number[]) =>
+    (positions.reduce((sum, position) => sum + points[position - 1], 0) /
+      (positions.length * (CUQ_SCALE_POINTS - 1))) *
+    100;
+
+  return {
+    score: normalize(items.map((_, index) => index + 1)),
+    dimensions: Object.fromEntries(
+      Object.entries(DIMENSION_ITEMS).map(([dimension, positions]) => [
+        dimension,
+        normalize(positions),
+      ])
+    ) as Record<CuqDimension, number>,
+  };
+}
@@ -0,0 +1,170 @@
+import {
+  type Question,
+  type Questionnaire,
+  validateQuestionnaire,
+} from "@/lib/questionnaire";
+
+/**
+ * The feedback form of the original study: the 16-item Chatbot Usability
+ * Questionnaire (CUQ) followed by questions about the assessment itself,
+ * with a Hindi translation
+ */
+export const DEFAULT_QUESTIONNAIRE: Questionnaire = {
+  id: "cuq-financial-persona",
+  version: "1",
+  title: "Feedback Form",
+  scales: {
+    agreement: [
+      "Strongly Disagree",
+      "Disagree",
+      "Neutral",
+      "Agree",
+      "Strongly Agree",
+    ],
+  },
+  sections: [
+    {
+      id: "usability",
+      questions: [
+        "The chatbot’s personality was realistic and engaging",
+        "The chatbot seemed too robotic",
+        "The chatbot was welcoming during initial setup",
+        "The chatbot seemed very unfriendly",
+        "The chatbot explained its scope and purpose well",
+        "The chatbot gave no indication as to its purpose",
+        "The chatbot was easy to navigate",
+        "It would be easy to get confused when using the chatbot",
+        "The chatbot understood me well",
+        "The chatbot failed to recognize a lot of my inputs",
+        "Chatbot responses were useful, appropriate and informative",
+        "Chatbot responses were irrelevant",
+        "The chatbot coped well with any errors or mistakes",
+        "The chatbot seemed unable to handle any errors",
+        "The chatbot was very easy to use",
+        "The chatbot was very complex",
+      ].map(
+        (text, index): Question => ({
+          id: `cuq_${index + 1}`,
+          type: "likert",
+          scale: "agreement",
+          text,
+        })
+      ),
+    },
+    {
+      id: "domain",
+      questions: [
+        ...[
+          "I was able to understand the questions generated by the chatbot",
+          "I was able to answer the questions easily",
+          "I was able to understand the output generated by the chatbot",
+          "The questions asked during the conversation made me think and reflect about my financial awareness",
+          "The questions asked were relevant in terms of how I think and deal with matters of money",
+          "I thought that the questions were relatable to my context of financial decisions",
+          "The profile generated reflects my persona very well",
+          "I agree with the list of strengths generated",
+          "I agree to the points listed under 'opportunities to improve'",
+        ].map(
+          (text, index): Question => ({
+            id: `domain_${index + 1}`,
+            type: "likert",
+            scale: "agreement",
+            text,
+          })
+        ),
+        {
+          id: "reflections",
+          type: "text",
+          text: "Any other ideas or reflections from your experience? Please specify",
+          placeholder: "Write your response here...",
+          required: false,
+        },
+      ],
+    },
+  ],
+  cuq: {
+    items: Array.from({ length: 16 }, (_, index) => `cuq_${index + 1}`),
+  },
+  translations: {
+    hi: {
+      title: "फ़ीडबैक फ़ॉर्म",
+      scales: {
+        agreement: [
+          "पूरी तरह असहमत",
+          "असहमत",
+          "तटस्थ",
+          "सहमत",
+          "पूरी तरह सहमत",
+        ],
+      },
+      questions: {
+        cuq_1: { text: "चैटबॉट का व्यक्तित्व वास्तविक और दिलचस्प था" },
+        cuq_2: { text: "चैटबॉट बहुत ज़्यादा मशीनी लगा" },
+        cuq_3: { text: "शुरुआत में चैटबॉट ने आत्मीयता से स्वागत किया" },
+        cuq_4: { text: "चैटबॉट बहुत रूखा लगा" },
+        cuq_5: { text: "चैटबॉट ने अपना दायरा और उद्देश्य अच्छी तरह समझाया" },
+        cuq_6: {
+          text: "चैटबॉट ने अपने उद्देश्य के बारे में कोई संकेत नहीं दिया",
+        },
+        cuq_7: { text: "चैटबॉट का उपयोग करना आसान था" },
+        cuq_8: { text: "चैटबॉट का उपयोग करते समय उलझन में पड़ना आसान होगा" },
+        cuq_9: { text: "चैटबॉट ने मुझे अच्छी तरह समझा" },
+        cuq_10: { text: "चैटबॉट मेरी कई बातों को पहचान नहीं पाया" },
+        cuq_11: { text: "चैटबॉट के उत्तर उपयोगी, उचित और जानकारीपूर्ण थे" },
+        cuq_12: { text: "चैटबॉट के उत्तर अप्रासंगिक थे" },
+        cuq_13: { text: "चैटबॉट ने गलतियों या त्रुटियों को अच्छी तरह संभाला" },
+        cuq_14: { text: "चैटबॉट किसी भी त्रुटि को संभालने में असमर्थ लगा" },
+        cuq_15: { text: "चैटबॉट का उपयोग करना बहुत सरल था" },
+        cuq_16: { text: "चैटबॉट बहुत जटिल था" },
+        domain_1: {
+          text: "मैं चैटबॉट द्वारा पूछे गए प्रश्नों को समझ पाया/पाई",
+        },
+        domain_2: { text: "मैं प्रश्नों के उत्तर आसानी से दे पाया/पाई" },
+        domain_3: { text: "मैं चैटबॉट द्वारा बनाए गए परिणाम को समझ पाया/पाई" },
+        domain_4: {
+          text: "बातचीत में पूछे गए प्रश्नों ने मुझे अपनी वित्तीय जागरूकता के बारे में सोचने और विचार करने पर मजबूर किया",
+        },
+        domain_5: {
+          text: "पूछे गए प्रश्न इस बात से जुड़े थे कि मैं पैसों के मामलों के बारे में कैसे सोचता/सोचती हूँ और उन्हें कैसे संभालता/संभालती हूँ",
+        },
+        domain_6: {
+          text: "मुझे लगा कि प्रश्न मेरे वित्तीय निर्णयों के संदर्भ से मेल खाते थे",
+        },
+        domain_7: {
+          text: "बनाई गई प्रोफ़ाइल मेरे पर्सोना को बहुत अच्छी तरह दर्शाती है",
+        },
+        domain_8: { text: "मैं बताई गई खूबियों की सूची से सहमत हूँ" },
+        domain_9: {
+          text: "मैं 'सुधार के अवसर' में बताए गए बिंदुओं से सहमत हूँ",
+        },
+        reflections: {
+          text: "आपके अनुभव से जुड़े कोई अन्य विचार या सुझाव? कृपया बताएँ",
+          placeholder: "अपना उत्तर यहाँ लिखें...",
+        },
+      },
+    },
+  },
+};
+
+// URL of a questionnaire JSON file, e.g. "/questionnaire.json" in public/.
+// Unset for the built-in questionnaire.
+const QUESTIONNAIRE_SOURCE = process.env.NEXT_PUBLIC_QUESTIONNAIRE;
+
+/**
+ * Loads the feedback questionnaire of the current study. Falls back to the
+ * built-in questionnaire if the configured file cannot be loaded.
+ */
+export async function loadQuestionnaire(): Promise<Questionnaire> {
+  if (!QUESTIONNAIRE_SOURCE) return DEFAULT_QUESTIONNAIRE;
+
+  try {
+    const response = await fetch(QUESTIONNAIRE_SOURCE);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return validateQuestionnaire(await response.json());
+  } catch (error) {
+    console.error("Failed to load questionnaire, using defaults", error);
+    return DEFAULT_QUESTIONNAIRE;
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * English UI texts, the reference catalog every other language translates.
+ * `{name}` marks a value filled in when the text is shown.
+ */
+export const en = {
+  "locale.label": "Language",
+
+  "common.thankYou": "🎉 Thank You for Trying our Chatbot!!",
+  "common.next": "Next →",
+  "common.loading": "Loading...",
+  "common.withdrawalPage": "withdrawal page",
+
+  "consent.title": "Consent Form for Study Participation",
+  "consent.intro":
+    "You are invited to take part in a research study exploring {topic}. Participation is entirely voluntary. No personally identifiable information (PII) will be collected. All responses will remain anonymous, and data will be used solely for research purposes.",
+  "consent.topic": "financial persona discovery through chatbot interaction",
+  "consent.storageHeading": "Data Storage and Security:",
+  "consent.storageLabel": "Storage:",
+  "consent.storage":
+    "The data will be stored securely on a password-protected machine of the primary researcher.",
+  "consent.accessLabel": "Access:",
+  "consent.access":
+    "Only individuals involved in the research project will have access to the data.",
+  "consent.retentionLabel": "Retention:",
+  "consent.retention":
+    "The data will be retained after the completion of the research project. Later it will be made public for future research usage by the community.",
+  "consent.rightsHeading": "Your Rights:",
+  "consent.withdrawalLabel": "Withdrawal of Consent:",
+  "consent.withdrawal":
+    "You have the right to withdraw your consent in the next 30 days from collecting the data by mentioning your unique User ID which will be mentioned in the end after submitting feedback. If you withdraw your consent, we will cease using your data and will delete it within 30 days. You can withdraw on the {link}.",
+  "consent.contactHeading": "Contact Information:",
+  "consent.contact":
+    "If you have any questions or concerns about this consent form or the research project, please contact:",
+  "consent.nameLabel": "Name:",
+  "consent.emailLabel": "Email:",
+  "consent.agree": "I consent to participate in this study.",
+  "consent.submit": "Next → Chatbot",
+  "consent.submitting": "Recording consent...",
+  "consent.error": "We could not record your consent. Please try again.",
+
+  "withdraw.title": "Withdraw Consent",
+  "withdraw.intro":
+    "You can withdraw your consent within {days} days of your session. Enter the User ID shown after you submitted the feedback form.",
+  "withdraw.userId": "User ID",
+  "withdraw.find": "Find",
+  "withdraw.sessionDate": "Session date:",
+  "withdraw.alreadyWithdrawn": "Consent was already withdrawn on {date}.",
+  "withdraw.deadline":
+    "You can withdraw until {date} ({days} days left). This cannot be undone.",
+  "withdraw.confirm": "I want to withdraw my consent and have my data deleted.",
+  "withdraw.submit": "Withdraw consent",
+  "withdraw.submitting": "Withdrawing...",
+  "withdraw.windowClosed":
+    "The {days}-day withdrawal window closed on {date}. Please contact the researchers listed on the consent form.",
+  "withdraw.success":
+    "✅ Your consent has been withdrawn. Your data will no longer be used and will be deleted.",
+  "withdraw.receipt": "Receipt",
+  "withdraw.withdrawn": "Withdrawn",
+  "withdraw.deleteBy": "Deleted by",
+  "withdraw.keepReceipt":
+    "Keep this receipt and quote it if you contact the researchers.",
+  "withdraw.print": "Print receipt",
+  "withdraw.notFound": "No session was found for this user ID.",
+  "withdraw.windowClosedError":
+    "The {days}-day withdrawal window for this session has closed.",
+  "withdraw.alreadyWithdrawnError": "Consent was already withdrawn.",
+  "withdraw.error": "Something went wrong. Please try again later.",
+
+  "chat.traitsAssessed": "{count} traits assessed",
+  "chat.startOver": "Start over",
+  "chat.welcomeTitle":
+    "Welcome! Thanks for your consent to be a part of this study.",
+  "chat.welcomeIntro":
+    "We have designed this chatbot to engage with you through a few quick interactions to explore your money use, preferences, and decision styles. While you enjoy this chat, you’ll discover your {persona} towards the end.",
+  "chat.welcomePersona": "financial persona",
+  "chat.welcomeFeedback":
+    "We also request you to fill in a small feedback form at the end of the conversation to support further efforts in the study. Thank You.",
+  "chat.instructionsTitle": "📌 Instructions",
+  "chat.instructionsPersona":
+    "After your traits get assessed, you can click on {button} to end the conversation. Note that once you click on it, you can not continue to chat.",
+  "chat.instructionsQuit":
+    "If at any point you wish to not continue, simply type {end} or {quit} to terminate.",
+  "chat.instructionsCommands":
+    "Type {help} to see the other commands you can use, e.g. to check your progress.",
+  "chat.instructionsRetry":
+    "If a message fails to send, click {retry} below it. Messages typed while offline are sent once you reconnect.",
+  "chat.scoreTimeline": "Score timeline",
+  "chat.emptyTitle": "Welcome to Financial Assessment",
+  "chat.emptyHint":
+    'Start a conversation to begin your financial trait assessment. You can start with a simple "Hi".',
+  "chat.sending": "Sending...",
+  "chat.offline": "Offline — will send when you are back online",
+  "chat.failed": "Failed to send —",
+  "chat.retry": "Retry",
+  "chat.notSent": "Not sent",
+  "chat.startFailed":
+    "We could not start a new session. Please check your connection and try again.",
+  "chat.consentFailed":
+    "We could not record your consent for this new session. You can keep chatting; please try again.",
+  "chat.edit": "Edit",
+  "chat.edited": "Edited",
+  "chat.editLabel": "Edit your message",
+  "chat.cancelEdit": "Cancel",
+  "chat.resend": "Resend",
+  "chat.placeholder": "Type your message...",
+  "chat.inputLabel": "Your message",
+  "chat.newlineHint": "Enter to send, Shift+Enter for a new line",
+  "chat.counter": "{count}/{max}",
+  "chat.send": "Send message",
+  "chat.messages": "Conversation",
+  "chat.you": "You",
+  "chat.assistant": "Assistant",
+  "chat.replying": "The assistant is replying...",
+  "chat.newReply": "Assistant: {reply}",
+  "chat.generatePersona": "Generate Persona",
+  "chat.viewPersona": "View Persona",
+  "chat.noAssessment":
+    "No assessment data available. Please have a conversation first.",
+  "chat.farewell":
+    "We are ending the chat as per your request. Thank you for your time and participation in this study. Have a great day!",
+
+  "commands.helpTitle": "Commands",
+  "commands.end": "End the chat",
+  "commands.help": "Show this list",
+  "commands.progress": "Show which traits have been assessed so far",
+  "commands.restart": "Start over with a new conversation",
+  "commands.helpKeywords": 'Typing "end" or "quit" also ends the chat.',
+  "commands.progressSummary": "{count} of {total} traits assessed",
+  "commands.progressNone": "No traits have been assessed yet.",
+  "commands.progressPersona":
+    "Your persona can be generated once {min} traits are assessed.",
+  "commands.unknown": "{command} is not a command. Type {help} to see them.",
+  "commands.dismiss": "Dismiss",
+  "commands.confirmEnd":
+    "End the chat? You will not be able to send any more messages.",
+  "commands.confirmRestart":
+    "Start over? Your current conversation and assessment will be lost.",
+
+  "persona.title": "Financial Persona",
+  "persona.evolution": "How your scores evolved",
+  "persona.empty": "No persona data available",
+  "persona.close": "Close",
+  "persona.generating": "Generating persona...",
+  "persona.failed": "Failed to generate persona. Please try again.",
+  "persona.popupBlocked": "Please allow pop-ups for this site to save the PDF.",
+  "persona.summary": "Summary",
+  "persona.strengths": "Strengths",
+  "persona.opportunities": "Opportunities to Improve",
+  "persona.traitNotes": "Trait Notes",
+  "persona.exportPdf": "PDF",
+  "persona.exportMarkdown": "Markdown",
+  "persona.exportJson": "JSON",
+
+  "radar.label": "Trait scores: {scores}",
+  "radar.score": "{trait} {score}",
+  "radar.notAssessed": "{trait} not assessed",
+  "radar.tooltip":
+    "{trait}: {score}/{max} (confidence {confidence}/{maxConfidence})",
+
+  "timeline.empty": "No trait has been assessed yet.",
+  "timeline.notAssessed": "Not assessed",
+  "timeline.single": "1 assessment",
+  "timeline.stable": "Converged",
+  "timeline.oscillating": "Oscillating",
+  "timeline.drifting": "Still moving",
+  "timeline.label": "{trait} scores by iteration: {points}",
+  "timeline.point": "iteration {step}: {score}",
+  "timeline.tooltip": "Iteration {step}: score {score}/{max}",
+  "timeline.tooltipConfidence":
+    "Iteration {step}: score {score}/{max}, confidence {confidence}/{maxConfidence}",
+  "timeline.legend":
+    "Solid line: score. Dashed line: confidence. Iterations {from}–{to}.",
+
+  "feedback.title": "Feedback Form",
+  "feedback.optional": "(optional)",
+  "feedback.required": "Please answer this question.",
+  "feedback.progress": "{answered} of {total} answered",
+  "feedback.progressLabel": "Questions answered",
+  "feedback.restored": "Restored your saved answers",
+  "feedback.missingOne": "⚠️ 1 question still needs an answer.",
+  "feedback.missing": "⚠️ {count} questions still need an answer.",
+  "feedback.jump": "Jump to first unanswered",
+  "feedback.cleared": "Responses cleared.",
+  "feedback.undo": "Undo",
+  "feedback.clear": "Clear Responses",
+  "feedback.submit": "Submit Feedback",
+  "feedback.submitting": "Submitting...",
+  "feedback.success": '✅ Feedback submitted successfully! User Id: "{userId}"',
+  "feedback.failed": "❌ Failed to submit feedback",
+  "feedback.error": "⚠️ Error while submitting feedback",
+  "feedback.submitTime": "Submit Time: {time}",
+  "feedback.withdrawNote":
+    "Keep your User ID: you can withdraw your consent within 30 days on the {link}.",
+};
+
+export type MessageKey = keyof typeof en;
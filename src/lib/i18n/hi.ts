@@ -0,0 +1,200 @@
+import type { MessageKey } from "./en";
+
+/**
+ * Hindi UI texts. Typed against the English catalog so a missing text
+ * fails the type check.
+ */
+export const hi: Record<MessageKey, string> = {
+  "locale.label": "भाषा",
+
+  "common.thankYou": "🎉 हमारे चैटबॉट को आज़माने के लिए धन्यवाद!!",
+  "common.next": "आगे →",
+  "common.loading": "लोड हो रहा है...",
+  "common.withdrawalPage": "सहमति वापसी पेज",
+
+  "consent.title": "अध्ययन में भागीदारी के लिए सहमति पत्र",
+  "consent.intro":
+    "आपको {topic} पर आधारित एक शोध अध्ययन में भाग लेने के लिए आमंत्रित किया जाता है। भागीदारी पूरी तरह स्वैच्छिक है। कोई भी व्यक्तिगत पहचान योग्य जानकारी (PII) एकत्र नहीं की जाएगी। सभी उत्तर गुमनाम रहेंगे, और डेटा का उपयोग केवल शोध के लिए किया जाएगा।",
+  "consent.topic": "चैटबॉट से बातचीत के ज़रिए वित्तीय पर्सोना की खोज",
+  "consent.storageHeading": "डेटा भंडारण और सुरक्षा:",
+  "consent.storageLabel": "भंडारण:",
+  "consent.storage":
+    "डेटा मुख्य शोधकर्ता की पासवर्ड-सुरक्षित मशीन पर सुरक्षित रूप से रखा जाएगा।",
+  "consent.accessLabel": "पहुँच:",
+  "consent.access":
+    "केवल इस शोध परियोजना से जुड़े व्यक्तियों की ही डेटा तक पहुँच होगी।",
+  "consent.retentionLabel": "संरक्षण:",
+  "consent.retention":
+    "शोध परियोजना पूरी होने के बाद भी डेटा रखा जाएगा। बाद में इसे समुदाय के भविष्य के शोध के लिए सार्वजनिक किया जाएगा।",
+  "consent.rightsHeading": "आपके अधिकार:",
+  "consent.withdrawalLabel": "सहमति वापस लेना:",
+  "consent.withdrawal":
+    "डेटा एकत्र होने के 30 दिनों के भीतर आप अपनी विशिष्ट यूज़र आईडी बताकर अपनी सहमति वापस ले सकते हैं। यह आईडी फ़ीडबैक जमा करने के बाद अंत में दिखाई जाएगी। सहमति वापस लेने पर हम आपके डेटा का उपयोग बंद कर देंगे और उसे 30 दिनों के भीतर हटा देंगे। आप {link} पर सहमति वापस ले सकते हैं।",
+  "consent.contactHeading": "संपर्क जानकारी:",
+  "consent.contact":
+    "इस सहमति पत्र या शोध परियोजना के बारे में किसी भी प्रश्न या चिंता के लिए कृपया संपर्क करें:",
+  "consent.nameLabel": "नाम:",
+  "consent.emailLabel": "ईमेल:",
+  "consent.agree": "मैं इस अध्ययन में भाग लेने के लिए सहमति देता/देती हूँ।",
+  "consent.submit": "आगे → चैटबॉट",
+  "consent.submitting": "सहमति दर्ज की जा रही है...",
+  "consent.error": "हम आपकी सहमति दर्ज नहीं कर सके। कृपया फिर से प्रयास करें।",
+
+  "withdraw.title": "सहमति वापस लें",
+  "withdraw.intro":
+    "आप अपने सत्र के {days} दिनों के भीतर अपनी सहमति वापस ले सकते हैं। फ़ीडबैक फ़ॉर्म जमा करने के बाद दिखाई गई यूज़र आईडी दर्ज करें।",
+  "withdraw.userId": "यूज़र आईडी",
+  "withdraw.find": "खोजें",
+  "withdraw.sessionDate": "सत्र की तारीख:",
+  "withdraw.alreadyWithdrawn": "सहमति {date} को पहले ही वापस ली जा चुकी है।",
+  "withdraw.deadline":
+    "आप {date} तक सहमति वापस ले सकते हैं ({days} दिन बाकी)। इसे पूर्ववत नहीं किया जा सकता।",
+  "withdraw.confirm":
+    "मैं अपनी सहमति वापस लेना चाहता/चाहती हूँ और चाहता/चाहती हूँ कि मेरा डेटा हटा दिया जाए।",
+  "withdraw.submit": "सहमति वापस लें",
+  "withdraw.submitting": "सहमति वापस ली जा रही है...",
+  "withdraw.windowClosed":
+    "{days} दिनों की सहमति वापसी की अवधि {date} को समाप्त हो गई। कृपया सहमति पत्र में दिए गए शोधकर्ताओं से संपर्क करें।",
+  "withdraw.success":
+    "✅ आपकी सहमति वापस ले ली गई है। आपके डेटा का अब उपयोग नहीं किया जाएगा और उसे हटा दिया जाएगा।",
+  "withdraw.receipt": "रसीद",
+  "withdraw.withdrawn": "वापस ली गई",
+  "withdraw.deleteBy": "हटाने की अंतिम तिथि",
+  "withdraw.keepReceipt":
+    "यह रसीद संभाल कर रखें और शोधकर्ताओं से संपर्क करते समय इसका उल्लेख करें।",
+  "withdraw.print": "रसीद प्रिंट करें",
+  "withdraw.notFound": "इस यूज़र आईडी के लिए कोई सत्र नहीं मिला।",
+  "withdraw.windowClosedError":
+    "इस सत्र के लिए {days} दिनों की सहमति वापसी की अवधि समाप्त हो गई है।",
+  "withdraw.alreadyWithdrawnError": "सहमति पहले ही वापस ली जा चुकी है।",
+  "withdraw.error": "कुछ गलत हो गया। कृपया बाद में फिर से प्रयास करें।",
+
+  "chat.traitsAssessed": "{count} गुणों का आकलन हुआ",
+  "chat.startOver": "फिर से शुरू करें",
+  "chat.welcomeTitle":
+    "स्वागत है! इस अध्ययन का हिस्सा बनने की सहमति देने के लिए धन्यवाद।",
+  "chat.welcomeIntro":
+    "हमने यह चैटबॉट कुछ छोटी बातचीत के ज़रिए आपके पैसे के उपयोग, पसंद और निर्णय लेने के तरीकों को समझने के लिए बनाया है। इस बातचीत के अंत में आप अपना {persona} जान पाएँगे।",
+  "chat.welcomePersona": "वित्तीय पर्सोना",
+  "chat.welcomeFeedback":
+    "बातचीत के अंत में अध्ययन में सहयोग के लिए कृपया एक छोटा फ़ीडबैक फ़ॉर्म भी भरें। धन्यवाद।",
+  "chat.instructionsTitle": "📌 निर्देश",
+  "chat.instructionsPersona":
+    "आपके गुणों का आकलन होने के बाद, बातचीत समाप्त करने के लिए आप {button} पर क्लिक कर सकते हैं। ध्यान दें कि क्लिक करने के बाद आप चैट जारी नहीं रख पाएँगे।",
+  "chat.instructionsQuit":
+    "यदि आप किसी भी समय आगे नहीं बढ़ना चाहते, तो समाप्त करने के लिए बस {end} या {quit} टाइप करें।",
+  "chat.instructionsCommands":
+    "आप और कौन-से कमांड इस्तेमाल कर सकते हैं, जैसे अपनी प्रगति देखना, यह जानने के लिए {help} टाइप करें।",
+  "chat.instructionsRetry":
+    "यदि कोई संदेश नहीं भेजा जा सका, तो उसके नीचे {retry} पर क्लिक करें। ऑफ़लाइन रहते हुए लिखे गए संदेश इंटरनेट वापस आने पर भेज दिए जाते हैं।",
+  "chat.scoreTimeline": "स्कोर टाइमलाइन",
+  "chat.emptyTitle": "वित्तीय आकलन में आपका स्वागत है",
+  "chat.emptyHint":
+    'अपने वित्तीय गुणों का आकलन शुरू करने के लिए बातचीत शुरू करें। आप एक साधारण "Hi" से शुरुआत कर सकते हैं।',
+  "chat.sending": "भेजा जा रहा है...",
+  "chat.offline": "ऑफ़लाइन — इंटरनेट वापस आने पर भेजा जाएगा",
+  "chat.failed": "भेजा नहीं जा सका —",
+  "chat.retry": "फिर से भेजें",
+  "chat.notSent": "नहीं भेजा गया",
+  "chat.startFailed":
+    "हम नया सत्र शुरू नहीं कर सके। कृपया अपना इंटरनेट कनेक्शन जाँचें और फिर से प्रयास करें।",
+  "chat.consentFailed":
+    "हम इस नए सत्र के लिए आपकी सहमति दर्ज नहीं कर सके। आप बातचीत जारी रख सकते हैं; कृपया फिर से प्रयास करें।",
+  "chat.edit": "बदलें",
+  "chat.edited": "बदला गया",
+  "chat.editLabel": "अपना संदेश बदलें",
+  "chat.cancelEdit": "रद्द करें",
+  "chat.resend": "फिर से भेजें",
+  "chat.placeholder": "अपना संदेश लिखें...",
+  "chat.inputLabel": "आपका संदेश",
+  "chat.newlineHint": "भेजने के लिए Enter, नई पंक्ति के लिए Shift+Enter",
+  "chat.counter": "{count}/{max}",
+  "chat.send": "संदेश भेजें",
+  "chat.messages": "बातचीत",
+  "chat.you": "आप",
+  "chat.assistant": "सहायक",
+  "chat.replying": "सहायक उत्तर दे रहा है...",
+  "chat.newReply": "सहायक: {reply}",
+  "chat.generatePersona": "पर्सोना बनाएँ",
+  "chat.viewPersona": "पर्सोना देखें",
+  "chat.noAssessment": "कोई आकलन डेटा उपलब्ध नहीं है। कृपया पहले बातचीत करें।",
+  "chat.farewell":
+    "आपके अनुरोध पर हम बातचीत समाप्त कर रहे हैं। इस अध्ययन में अपना समय और सहयोग देने के लिए धन्यवाद। आपका दिन शुभ हो!",
+
+  "commands.helpTitle": "कमांड",
+  "commands.end": "बातचीत समाप्त करें",
+  "commands.help": "यह सूची दिखाएँ",
+  "commands.progress": "अब तक किन गुणों का आकलन हुआ, यह दिखाएँ",
+  "commands.restart": "नई बातचीत के साथ फिर से शुरू करें",
+  "commands.helpKeywords":
+    '"end" या "quit" टाइप करने से भी बातचीत समाप्त हो जाती है।',
+  "commands.progressSummary": "{total} में से {count} गुणों का आकलन हुआ",
+  "commands.progressNone": "अभी तक किसी गुण का आकलन नहीं हुआ है।",
+  "commands.progressPersona":
+    "{min} गुणों का आकलन होने के बाद आपका पर्सोना बनाया जा सकता है।",
+  "commands.unknown":
+    "{command} कोई कमांड नहीं है। सभी कमांड देखने के लिए {help} टाइप करें।",
+  "commands.dismiss": "बंद करें",
+  "commands.confirmEnd":
+    "बातचीत समाप्त करें? इसके बाद आप कोई संदेश नहीं भेज पाएँगे।",
+  "commands.confirmRestart":
+    "फिर से शुरू करें? आपकी मौजूदा बातचीत और आकलन मिट जाएँगे।",
+
+  "persona.title": "वित्तीय पर्सोना",
+  "persona.evolution": "आपके स्कोर कैसे बदले",
+  "persona.empty": "कोई पर्सोना डेटा उपलब्ध नहीं है",
+  "persona.close": "बंद करें",
+  "persona.generating": "पर्सोना बनाया जा रहा है...",
+  "persona.failed": "पर्सोना नहीं बनाया जा सका। कृपया फिर से प्रयास करें।",
+  "persona.popupBlocked":
+    "PDF सहेजने के लिए कृपया इस साइट के पॉप-अप की अनुमति दें।",
+  "persona.summary": "सारांश",
+  "persona.strengths": "खूबियाँ",
+  "persona.opportunities": "सुधार के अवसर",
+  "persona.traitNotes": "गुणों पर टिप्पणियाँ",
+  "persona.exportPdf": "PDF",
+  "persona.exportMarkdown": "Markdown",
+  "persona.exportJson": "JSON",
+
+  "radar.label": "गुणों के स्कोर: {scores}",
+  "radar.score": "{trait} {score}",
+  "radar.notAssessed": "{trait} का आकलन नहीं हुआ",
+  "radar.tooltip":
+    "{trait}: {score}/{max} (विश्वास {confidence}/{maxConfidence})",
+
+  "timeline.empty": "अभी तक किसी गुण का आकलन नहीं हुआ है।",
+  "timeline.notAssessed": "आकलन नहीं हुआ",
+  "timeline.single": "1 आकलन",
+  "timeline.stable": "स्थिर",
+  "timeline.oscillating": "ऊपर-नीचे हो रहा है",
+  "timeline.drifting": "अभी बदल रहा है",
+  "timeline.label": "{trait} के स्कोर, हर दौर में: {points}",
+  "timeline.point": "दौर {step}: {score}",
+  "timeline.tooltip": "दौर {step}: स्कोर {score}/{max}",
+  "timeline.tooltipConfidence":
+    "दौर {step}: स्कोर {score}/{max}, विश्वास {confidence}/{maxConfidence}",
+  "timeline.legend":
+    "ठोस रेखा: स्कोर। डैश वाली रेखा: विश्वास। दौर {from}–{to}।",
+
+  "feedback.title": "फ़ीडबैक फ़ॉर्म",
+  "feedback.optional": "(वैकल्पिक)",
+  "feedback.required": "कृपया इस प्रश्न का उत्तर दें।",
+  "feedback.progress": "{total} में से {answered} के उत्तर दिए गए",
+  "feedback.progressLabel": "उत्तर दिए गए प्रश्न",
+  "feedback.restored": "आपके सहेजे गए उत्तर वापस लाए गए",
+  "feedback.missingOne": "⚠️ 1 प्रश्न का उत्तर देना बाकी है।",
+  "feedback.missing": "⚠️ {count} प्रश्नों के उत्तर देना बाकी है।",
+  "feedback.jump": "पहले अनुत्तरित प्रश्न पर जाएँ",
+  "feedback.cleared": "उत्तर मिटा दिए गए।",
+  "feedback.undo": "पूर्ववत करें",
+  "feedback.clear": "उत्तर मिटाएँ",
+  "feedback.submit": "फ़ीडबैक जमा करें",
+  "feedback.submitting": "जमा किया जा रहा है...",
+  "feedback.success":
+    '✅ फ़ीडबैक सफलतापूर्वक जमा हो गया! यूज़र आईडी: "{userId}"',
+  "feedback.failed": "❌ फ़ीडबैक जमा नहीं हो सका",
+  "feedback.error": "⚠️ फ़ीडबैक जमा करते समय त्रुटि हुई",
+  "feedback.submitTime": "जमा करने का समय: {time}",
+  "feedback.withdrawNote":
+    "अपनी यूज़र आईडी संभाल कर रखें: आप 30 दिनों के भीतर {link} पर अपनी सहमति वापस ले सकते हैं।",
+};
@@ -0,0 +1,62 @@
+// Languages the participant-facing pages are available in
+export const LOCALES = ["en", "hi"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Names shown in the language switcher, each in its own language
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: "English",
+  hi: "हिन्दी",
+};
+
+// Regional tags for dates and numbers; the participant pool is in India
+export const LOCALE_TAGS: Record<Locale, string> = {
+  en: "en-IN",
+  hi: "hi-IN",
+};
+
+// Cookie holding the chosen language, read when pages are rendered
+export const LOCALE_COOKIE = "assessment-locale";
+
+const LOCALE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/**
+ * Picks the page language: the one chosen in the switcher, else the first
+ * supported language the browser asks for, else English
+ * @param cookie - Value of the locale cookie
+ * @param acceptLanguage - Accept-Language header, e.g. "hi-IN,hi;q=0.9,en;q=0.8"
+ */
+export function negotiateLocale(
+  cookie: string | undefined,
+  acceptLanguage: string | null
+): Locale {
+  if (isLocale(cookie)) return cookie;
+
+  const requested = (acceptLanguage ?? "")
+    .split(",")
+    .map((entry) => {
+      const [tag, ...params] = entry.trim().split(";");
+      const q = params.find((param) => param.trim().startsWith("q="));
+      return {
+        language: tag.split("-")[0].toLowerCase(),
+        quality: q ? Number(q.trim().slice(2)) : 1,
+      };
+    })
+    .filter((entry) => entry.language && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  const match = requested.find((entry) => isLocale(entry.language));
+  return match ? (match.language as Locale) : DEFAULT_LOCALE;
+}
+
+/**
+ * Remembers the language chosen in the switcher
+ */
+export function storeLocale(locale: Locale) {
+  document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=${LOCALE_MAX_AGE_SECONDS}; samesite=lax`;
+}
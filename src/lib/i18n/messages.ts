@@ -0,0 +1,38 @@
+import { type MessageKey, en } from "./en";
+import { hi } from "./hi";
+import type { Locale } from "./locale";
+
+export type { MessageKey };
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, hi };
+
+/**
+ * Splits a text at its `{name}` placeholders, e.g. "Click {button}" into
+ * ["Click ", "button", ""], so every odd entry is a placeholder name
+ */
+export function splitPlaceholders(text: string): string[] {
+  return text.split(/\{(\w+)\}/);
+}
+
+/**
+ * Raw text of a message, placeholders left in place
+ */
+export function messageText(locale: Locale, key: MessageKey): string {
+  return CATALOGS[locale][key] ?? en[key];
+}
+
+/**
+ * Looks up a UI text and fills in its placeholders. Falls back to English
+ * for texts a catalog does not have.
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string {
+  return splitPlaceholders(messageText(locale, key))
+    .map((part, index) =>
+      index % 2 === 1 ? String(params[part] ?? `{${part}}`) : part
+    )
+    .join("");
+}
@@ -0,0 +1,384 @@
+import type {
+  BackendState,
+  StructuredPersona,
+  WithdrawalReceiptResponse,
+} from "@/lib/api";
+import { WITHDRAWAL_WINDOW_DAYS } from "@/lib/withdrawal";
+
+/**
+ * Scripted stand-in for the assessment backend, served by the route handlers
+ * under /api/mock. Every scenario walks through the six traits in the same
+ * order and produces the same scores for the same number of answers, so
+ * designers and testers get a reproducible consent → chat → persona →
+ * feedback flow without the real server.
+ */
+
+/**
+ * Scripted assessment of one trait: one entry per round of questions
+ */
+interface ScriptedTrait {
+  scores: number[]; // Score from 1-5 for each round
+  confidences: number[]; // Confidence from 1-10 for each round
+  rationale: string; // Explanation reused for every round
+}
+
+type Scenario = Record<string, ScriptedTrait>;
+
+// Traits in the order they are asked about, same keys as the real backend
+const TRAIT_ORDER = [
+  "awareness",
+  "self_control",
+  "preparedness",
+  "information_seeking",
+  "risk_seeking",
+  "reaction_to_external_events",
+];
+
+// Number of questions asked about each trait before the persona is ready
+const ROUNDS = 2;
+
+const QUESTIONS: Record<string, string[]> = {
+  awareness: [
+    "To get started, how do you usually keep track of where your money goes each month?",
+    "Do you know roughly how much interest you pay or earn on your loans and savings?",
+  ],
+  self_control: [
+    "Think of the last time you saw something you wanted but had not planned to buy. What did you do?",
+    "How do you handle it when your spending in a month goes over what you intended?",
+  ],
+  preparedness: [
+    "If you had an unexpected expense of one month's income tomorrow, how would you cover it?",
+    "Do you have any plans set aside for big goals, like a home, education or retirement?",
+  ],
+  information_seeking: [
+    "Before a big purchase or investment, how do you decide what to go for?",
+    "Whose advice, if anyone's, do you trust most when it comes to money?",
+  ],
+  risk_seeking: [
+    "Would you prefer a guaranteed small return or a chance at a much larger one with some risk of loss?",
+    "Have you ever invested in something that could lose value? How did it feel?",
+  ],
+  reaction_to_external_events: [
+    "When prices rise or markets fall sharply, do you change anything about how you handle money?",
+    "How did your financial habits change during a difficult period, if there was one?",
+  ],
+};
+
+const SCENARIOS: Record<string, Scenario> = {
+  balanced: {
+    awareness: {
+      scores: [3, 4],
+      confidences: [6, 8],
+      rationale: "Tracks spending loosely and knows the main numbers.",
+    },
+    self_control: {
+      scores: [3, 3],
+      confidences: [5, 7],
+      rationale: "Occasionally buys on impulse but corrects course.",
+    },
+    preparedness: {
+      scores: [3, 4],
+      confidences: [6, 7],
+      rationale: "Has some savings set aside for emergencies.",
+    },
+    information_seeking: {
+      scores: [4, 4],
+      confidences: [7, 8],
+      rationale: "Compares options before larger decisions.",
+    },
+    risk_seeking: {
+      scores: [3, 3],
+      confidences: [6, 7],
+      rationale: "Accepts moderate risk for better returns.",
+    },
+    reaction_to_external_events: {
+      scores: [3, 3],
+      confidences: [5, 6],
+      rationale: "Adjusts somewhat to external changes without panicking.",
+    },
+  },
+  cautious: {
+    awareness: {
+      scores: [4, 5],
+      confidences: [7, 9],
+      rationale: "Keeps a detailed budget and reviews it regularly.",
+    },
+    self_control: {
+      scores: [5, 4],
+      confidences: [8, 8],
+      rationale: "Rarely spends outside the plan.",
+    },
+    preparedness: {
+      scores: [4, 5],
+      confidences: [7, 9],
+      rationale: "Maintains an emergency fund and long-term savings.",
+    },
+    information_seeking: {
+      scores: [4, 5],
+      confidences: [6, 8],
+      rationale: "Researches thoroughly and consults trusted sources.",
+    },
+    risk_seeking: {
+      scores: [2, 1],
+      confidences: [7, 8],
+      rationale: "Strongly prefers guaranteed returns.",
+    },
+    reaction_to_external_events: {
+      scores: [2, 2],
+      confidences: [6, 7],
+      rationale: "Becomes more conservative when conditions change.",
+    },
+  },
+  impulsive: {
+    awareness: {
+      scores: [2, 2],
+      confidences: [6, 7],
+      rationale: "Has little visibility into monthly spending.",
+    },
+    self_control: {
+      scores: [1, 2],
+      confidences: [7, 8],
+      rationale: "Frequently makes unplanned purchases.",
+    },
+    preparedness: {
+      scores: [2, 1],
+      confidences: [6, 8],
+      rationale: "Would need to borrow to cover an emergency.",
+    },
+    information_seeking: {
+      scores: [2, 3],
+      confidences: [5, 6],
+      rationale: "Relies mostly on friends and social media tips.",
+    },
+    risk_seeking: {
+      scores: [5, 4],
+      confidences: [7, 8],
+      rationale: "Drawn to high-return, high-risk opportunities.",
+    },
+    reaction_to_external_events: {
+      scores: [4, 5],
+      confidences: [6, 7],
+      rationale: "Reacts quickly and strongly to market news.",
+    },
+  },
+};
+
+const DEFAULT_SCENARIO = "balanced";
+
+/**
+ * Returns the scenario selected with MOCK_API_SCENARIO, or the default one
+ */
+function getScenario(): Scenario {
+  const name = process.env.MOCK_API_SCENARIO ?? DEFAULT_SCENARIO;
+  if (!SCENARIOS[name]) {
+    console.warn(
+      `Unknown MOCK_API_SCENARIO "${name}", using "${DEFAULT_SCENARIO}"`
+    );
+    return SCENARIOS[DEFAULT_SCENARIO];
+  }
+  return SCENARIOS[name];
+}
+
+const toDisplayName = (trait: string) =>
+  trait
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+const average = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Builds a structured persona from the scores recorded in the state
+ * @returns The persona, or null if no trait has been assessed yet
+ */
+export function buildStructuredPersona(
+  state: BackendState | null
+): StructuredPersona | null {
+  const averages = TRAIT_ORDER.filter(
+    (trait) => (state?.[`${trait}_score`] ?? []).length > 0
+  ).map((trait) => ({
+    trait,
+    score: average(state?.[`${trait}_score`] ?? []),
+  }));
+
+  if (averages.length === 0) return null;
+
+  const strengths = averages.filter((a) => a.score >= 3.5);
+  const opportunities = averages.filter((a) => a.score < 3);
+
+  return {
+    summary:
+      "You approach money with a mix of habits shaped by your experiences. " +
+      "This profile is based on a scripted demo conversation.",
+    strengths:
+      strengths.length > 0
+        ? strengths.map((a) => toDisplayName(a.trait))
+        : ["Consistent, middle-of-the-road habits"],
+    opportunities:
+      opportunities.length > 0
+        ? opportunities.map((a) => toDisplayName(a.trait))
+        : ["Keep reviewing your plans as your circumstances change"],
+    trait_notes: Object.fromEntries(
+      averages.map((a) => [a.trait, `${a.score.toFixed(1)}/5`])
+    ),
+  };
+}
+
+/**
+ * Builds the persona text from the scores recorded in the state
+ */
+export function buildPersona(state: BackendState | null): string {
+  const persona = buildStructuredPersona(state);
+  if (!persona) {
+    return "Not enough information has been collected to generate a persona yet.";
+  }
+
+  return [
+    "Summary:",
+    persona.summary,
+    "",
+    "Strengths:",
+    ...(persona.strengths ?? []).map((s) => `- ${s}`),
+    "",
+    "Opportunities to Improve:",
+    ...(persona.opportunities ?? []).map((o) => `- ${o}`),
+    "",
+    "Trait Notes:",
+    ...Object.entries(persona.trait_notes ?? {}).map(
+      ([trait, note]) => `- ${toDisplayName(trait)}: ${note}`
+    ),
+  ].join("\n");
+}
+
+/**
+ * Plays one scripted chat turn
+ * @param message - Text sent by the user
+ * @param state - State from the previous turn, null on the first turn
+ * @param terminate - Whether the participant asked to end the chat
+ * @returns The reply and the updated state, like the real /chat endpoint
+ */
+export function playChatTurn(
+  message: string,
+  state: BackendState | null,
+  terminate = false
+): { response: string; updated_state: BackendState; terminated: boolean } {
+  // Clients that predate the terminate flag still send the bare keywords
+  if (terminate || ["end", "quit"].includes(message.trim().toLowerCase())) {
+    return {
+      response:
+        "We are ending the chat as per your request. Thank you for your time. Have a great day!",
+      updated_state: state ?? { continue_conversation: true },
+      terminated: true,
+    };
+  }
+
+  const scenario = getScenario();
+  const answered = state?.current_iteration ?? 0;
+  const next: BackendState = { ...(state ?? {}), continue_conversation: true };
+
+  // Every answer after the greeting assesses the trait that was asked about
+  if (state) {
+    const turn = answered;
+    const trait = TRAIT_ORDER[turn % TRAIT_ORDER.length];
+    const round = Math.floor(turn / TRAIT_ORDER.length);
+    const script = scenario[trait];
+
+    next[`${trait}_score`] = [
+      ...(state[`${trait}_score`] ?? []),
+      script.scores[round],
+    ];
+    next[`${trait}_confidence`] = [
+      ...(state[`${trait}_confidence`] ?? []),
+      script.confidences[round],
+    ];
+    next[`${trait}_sentences`] = [
+      ...(state[`${trait}_sentences`] ?? []),
+      `${toDisplayName(trait)} assessed from: "${message.slice(0, 80)}"`,
+    ];
+    next[`${trait}_rationale`] = [
+      ...(state[`${trait}_rationale`] ?? []),
+      script.rationale,
+    ];
+    next.current_iteration = answered + 1;
+  } else {
+    next.current_iteration = 0;
+  }
+
+  const asked = next.current_iteration ?? 0;
+  if (asked >= TRAIT_ORDER.length * ROUNDS) {
+    next.continue_conversation = false;
+    next.current_priority = null;
+    next.persona = buildPersona(next);
+    return {
+      response: "Thank you, that's everything I needed. Here is your persona.",
+      updated_state: next,
+      terminated: false,
+    };
+  }
+
+  const trait = TRAIT_ORDER[asked % TRAIT_ORDER.length];
+  const round = Math.floor(asked / TRAIT_ORDER.length);
+  next.current_priority = trait;
+
+  return {
+    response: state
+      ? `Thanks for sharing. ${QUESTIONS[trait][round]}`
+      : `Hi! I'd like to learn a little about how you handle money. ${QUESTIONS[trait][round]}`,
+    updated_state: next,
+    terminated: false,
+  };
+}
+
+/**
+ * Simulated backend latency, configurable with MOCK_API_LATENCY_MS
+ */
+export function mockLatency() {
+  const ms = Number(process.env.MOCK_API_LATENCY_MS ?? 400);
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Creates a user ID that encodes when its session started, so the
+ * withdrawal mock can check the window without storing sessions
+ */
+export function mockUserId() {
+  return `mock-user-${Date.now().toString(36)}-${crypto
+    .randomUUID()
+    .slice(0, 4)}`;
+}
+
+/**
+ * Start of the session of a user ID created by mockUserId
+ * @returns The start time, or null for IDs the mock did not create
+ */
+export function mockSessionStart(userId: string): Date | null {
+  const match = /^mock-user-([0-9a-z]+)-[0-9a-f]{4}$/.exec(userId);
+  if (!match) return null;
+  const start = new Date(parseInt(match[1], 36));
+  return Number.isNaN(start.getTime()) ? null : start;
+}
+
+// Withdrawals made since the dev server started, keyed by user ID
+const withdrawals = new Map<string, WithdrawalReceiptResponse>();
+
+export function getMockWithdrawal(userId: string) {
+  return withdrawals.get(userId);
+}
+
+/**
+ * Withdraws a user's consent and returns the receipt
+ */
+export function recordMockWithdrawal(userId: string) {
+  const now = new Date();
+  const receipt: WithdrawalReceiptResponse = {
+    receipt_id: `WD-${crypto.randomUUID().slice(0, 8).toUpperCase()}`,
+    user_id: userId,
+    withdrawn_at: now.toISOString(),
+    delete_by: new Date(
+      now.getTime() + WITHDRAWAL_WINDOW_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString(),
+  };
+  withdrawals.set(userId, receipt);
+  return receipt;
+}
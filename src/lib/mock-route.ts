@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { ApiContractError } from "@/lib/api/errors";
+import { type BackendState, parseBackendState } from "@/lib/api/schema";
+
+// The mock backend only answers when switched on explicitly, so a production
+// build never serves the scripted study by accident
+export const MOCK_API_ENABLED = process.env.NEXT_PUBLIC_USE_MOCK_API === "true";
+
+/**
+ * Raised by readMockBody and readMockState when a request body is malformed
+ */
+class InvalidBodyError extends Error {}
+
+/**
+ * Wraps a route handler under /api/mock: answers 404 while the mock backend
+ * is switched off and 400 when the request body is malformed
+ * @param handler - The mock endpoint
+ */
+export function mockRoute<A extends unknown[]>(
+  handler: (...args: A) => Promise<Response>
+): (...args: A) => Promise<Response> {
+  return async (...args) => {
+    if (!MOCK_API_ENABLED) {
+      return NextResponse.json({ detail: "Not found" }, { status: 404 });
+    }
+    try {
+      return await handler(...args);
+    } catch (error) {
+      if (!(error instanceof InvalidBodyError)) throw error;
+      return NextResponse.json({ detail: error.message }, { status: 400 });
+    }
+  };
+}
+
+/**
+ * Decodes the JSON object sent to a mock endpoint. Only use it inside
+ * mockRoute, which turns a malformed body into a 400 response.
+ */
+export async function readMockBody(
+  request: Request
+): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new InvalidBodyError("Request body is not valid JSON");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new InvalidBodyError("Request body should be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Checks the backend state sent along with a request body, like the real
+ * backend would before reading it
+ * @param endpoint - Endpoint mocked, e.g. "/chat"
+ * @param body - Request body read with readMockBody
+ * @returns The state, or null on the first turn
+ */
+export function readMockState(
+  endpoint: string,
+  body: Record<string, unknown>
+): BackendState | null {
+  if (body.state === undefined || body.state === null) return null;
+  try {
+    return parseBackendState(endpoint, body.state, "state");
+  } catch (error) {
+    if (!(error instanceof ApiContractError)) throw error;
+    throw new InvalidBodyError(`Request body has an invalid ${error.path}`);
+  }
+}
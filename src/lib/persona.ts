@@ -0,0 +1,178 @@
+import type { StructuredPersona } from "@/lib/api";
+
+/**
+ * A note about a single trait in the persona
+ */
+export interface TraitNote {
+  trait: string; // Trait key or label as written by the backend
+  note: string;
+}
+
+/**
+ * Persona split into the sections shown to the participant
+ */
+export interface PersonaReport {
+  summary: string[]; // Summary paragraphs
+  strengths: string[];
+  opportunities: string[]; // Opportunities to improve
+  traitNotes: TraitNote[];
+  raw: string; // Original text, shown as-is when nothing could be parsed
+}
+
+type Section = "summary" | "strengths" | "opportunities" | "traitNotes";
+
+/**
+ * Maps a heading to the section it introduces
+ * @returns The section, or null if the heading is not a known one
+ */
+function classifyHeading(heading: string): Section | null {
+  const text = heading.toLowerCase();
+  if (/opportunit|improve|weakness|growth area/.test(text)) {
+    return "opportunities";
+  }
+  if (/strength/.test(text)) return "strengths";
+  if (/trait (notes|breakdown|details)|per-trait|traits$/.test(text)) {
+    return "traitNotes";
+  }
+  if (/summary|overview|persona|profile/.test(text)) return "summary";
+  return null;
+}
+
+const LIST_ITEM = /^(?:[-*•]|\d+[.)])\s+/;
+
+/**
+ * Reads the label of a line that is nothing but a heading: a markdown heading
+ * ("## Strengths"), a fully bold line ("**Strengths**") or a bare label
+ * ("Strengths:")
+ * @returns The label, or null if the line has content of its own
+ */
+function headingLabel(line: string): string | null {
+  const match =
+    line.match(/^#{1,6}\s+(.+)$/) ??
+    line.match(/^(?:\*\*|__)([^*_]+)(?:\*\*|__):?$/) ??
+    line.match(/^([^:]{1,60}):$/);
+  if (!match) return null;
+  return match[1].replace(/\*\*|__|:$/g, "").trim();
+}
+
+/**
+ * Parses persona text into sections. Lines under an unknown heading, or
+ * before any heading, count as summary.
+ * @param text - Persona text returned by /persona
+ */
+export function parsePersonaText(text: string): PersonaReport {
+  const report: PersonaReport = {
+    summary: [],
+    strengths: [],
+    opportunities: [],
+    traitNotes: [],
+    raw: text,
+  };
+  let section: Section = "summary";
+
+  const add = (line: string) => {
+    if (!line) return;
+    if (section === "traitNotes") {
+      // "Awareness: high, tracks spending closely"
+      const match = line.match(/^([^:]+?)\s*(?::|\s[-–]\s)\s*(.+)$/);
+      report.traitNotes.push(
+        match
+          ? { trait: match[1].trim(), note: match[2].trim() }
+          : { trait: "", note: line }
+      );
+    } else {
+      report[section].push(line);
+    }
+  };
+
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    // A sentence such as "Your persona is: Cautious Planner" is content, even
+    // though it mentions a section
+    const label = LIST_ITEM.test(line) ? null : headingLabel(line);
+    const headingSection = label ? classifyHeading(label) : null;
+
+    if (headingSection) {
+      section = headingSection;
+      return;
+    }
+
+    add(line.replace(LIST_ITEM, "").replace(/\*\*/g, ""));
+  });
+
+  return report;
+}
+
+/**
+ * Converts a structured persona into a report, keeping a text rendering of
+ * it as the raw fallback
+ */
+export function fromStructuredPersona(persona: StructuredPersona): PersonaReport {
+  const report: PersonaReport = {
+    summary: persona.summary ? persona.summary.split(/\n\s*\n/) : [],
+    strengths: persona.strengths ?? [],
+    opportunities: persona.opportunities ?? [],
+    traitNotes: Object.entries(persona.trait_notes ?? {}).map(
+      ([trait, note]) => ({ trait, note })
+    ),
+    raw: "",
+  };
+  report.raw = personaReportToText(report);
+  return report;
+}
+
+/**
+ * Normalizes whatever /persona returned into a report
+ */
+export function toPersonaReport(
+  response: string | StructuredPersona
+): PersonaReport {
+  return typeof response === "string"
+    ? parsePersonaText(response)
+    : fromStructuredPersona(response);
+}
+
+/**
+ * Whether parsing found any structure worth rendering as sections
+ */
+export function hasSections(report: PersonaReport) {
+  return (
+    report.strengths.length > 0 ||
+    report.opportunities.length > 0 ||
+    report.traitNotes.length > 0
+  );
+}
+
+/**
+ * Renders a report back to plain text with one heading per section
+ */
+export function personaReportToText(report: PersonaReport) {
+  const parts: string[] = [];
+  if (report.summary.length > 0) {
+    parts.push(["Summary:", ...report.summary].join("\n"));
+  }
+  if (report.strengths.length > 0) {
+    parts.push(["Strengths:", ...report.strengths.map((s) => `- ${s}`)].join("\n"));
+  }
+  if (report.opportunities.length > 0) {
+    parts.push(
+      [
+        "Opportunities to Improve:",
+        ...report.opportunities.map((o) => `- ${o}`),
+      ].join("\n")
+    );
+  }
+  if (report.traitNotes.length > 0) {
+    parts.push(
+      [
+        "Trait Notes:",
+        ...report.traitNotes.map((n) =>
+          n.trait ? `- ${n.trait}: ${n.note}` : `- ${n.note}`
+        ),
+      ].join("\n")
+    );
+  }
+  return parts.join("\n\n");
+}
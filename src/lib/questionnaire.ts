@@ -0,0 +1,269 @@
+import { CUQ_ITEM_COUNT, CUQ_SCALE_POINTS } from "@/lib/cuq";
+
+/**
+ * Shows a question only when another question has been answered a certain way
+ */
+export interface QuestionCondition {
+  question: string; // Id of the question the display depends on
+  in?: string[]; // Shown when one of these options is chosen; any answer if omitted
+}
+
+interface BaseQuestion {
+  id: string; // Stable id, used for answers and scoring
+  text: string; // Wording shown to the participant, also the key sent to /feedback
+  required?: boolean; // Defaults to true
+  showIf?: QuestionCondition;
+}
+
+/**
+ * Agreement-style item answered on one of the questionnaire's named scales
+ */
+export interface LikertQuestion extends BaseQuestion {
+  type: "likert";
+  scale: string; // Key into Questionnaire.scales
+}
+
+/**
+ * Pick one option, or several when `multiple` is set
+ */
+export interface ChoiceQuestion extends BaseQuestion {
+  type: "choice";
+  options: string[];
+  multiple?: boolean;
+}
+
+export interface TextQuestion extends BaseQuestion {
+  type: "text";
+  placeholder?: string;
+  rows?: number; // Height of the text box, defaults to 3
+}
+
+export type Question = LikertQuestion | ChoiceQuestion | TextQuestion;
+
+export interface QuestionnaireSection {
+  id: string;
+  title?: string;
+  description?: string;
+  questions: Question[];
+}
+
+/**
+ * Display text of a question in another language
+ */
+export interface QuestionTranslation {
+  text?: string;
+  placeholder?: string;
+  options?: string[]; // Choice labels in the order of `options`
+}
+
+/**
+ * Display texts of a questionnaire in one language. Answers are still
+ * recorded and submitted with the original wording, so responses stay
+ * comparable across languages.
+ */
+export interface QuestionnaireTranslation {
+  title?: string;
+  scales?: Record<string, string[]>; // Labels in the order of the original scale
+  sections?: Record<string, { title?: string; description?: string }>;
+  questions?: Record<string, QuestionTranslation>;
+}
+
+/**
+ * A feedback instrument: named Likert scales and sections of questions
+ */
+export interface Questionnaire {
+  id: string;
+  version: string;
+  title: string;
+  scales: Record<string, string[]>; // Option labels from lowest to highest, any width
+  sections: QuestionnaireSection[];
+  cuq?: { items: string[] }; // Ids of the 16 CUQ items in standard order, scored on submit
+  translations?: Record<string, QuestionnaireTranslation>; // Keyed by locale, e.g. "hi"
+}
+
+// Several options of a multiple choice question are stored as a list
+export type Answer = string | string[];
+export type Answers = Record<string, Answer>;
+
+const hasAnswer = (answer: Answer | undefined) =>
+  Array.isArray(answer) ? answer.length > 0 : !!answer?.trim();
+
+/**
+ * Every question of the questionnaire in display order
+ */
+export function allQuestions(questionnaire: Questionnaire): Question[] {
+  return questionnaire.sections.flatMap((section) => section.questions);
+}
+
+/**
+ * Whether a question is shown given the answers so far. A question depending
+ * on a hidden question is hidden too.
+ */
+export function isQuestionVisible(
+  questionnaire: Questionnaire,
+  question: Question,
+  answers: Answers
+): boolean {
+  const condition = question.showIf;
+  if (!condition) return true;
+
+  const parent = allQuestions(questionnaire).find(
+    (q) => q.id === condition.question
+  );
+  if (!parent || !isQuestionVisible(questionnaire, parent, answers)) {
+    return false;
+  }
+
+  const answer = answers[condition.question];
+  if (!hasAnswer(answer)) return false;
+  if (!condition.in) return true;
+  return [answer]
+    .flat()
+    .some((value) => condition.in?.includes(value as string));
+}
+
+/**
+ * Questions currently shown, in display order
+ */
+export function visibleQuestions(
+  questionnaire: Questionnaire,
+  answers: Answers
+): Question[] {
+  return allQuestions(questionnaire).filter((question) =>
+    isQuestionVisible(questionnaire, question, answers)
+  );
+}
+
+/**
+ * Shown questions that have an answer
+ */
+export function answeredQuestions(
+  questionnaire: Questionnaire,
+  answers: Answers
+): Question[] {
+  return visibleQuestions(questionnaire, answers).filter((question) =>
+    hasAnswer(answers[question.id])
+  );
+}
+
+/**
+ * Shown questions that are required but not answered yet
+ */
+export function missingAnswers(
+  questionnaire: Questionnaire,
+  answers: Answers
+): Question[] {
+  return visibleQuestions(questionnaire, answers).filter(
+    (question) =>
+      question.required !== false && !hasAnswer(answers[question.id])
+  );
+}
+
+/**
+ * Builds the /feedback responses: answers of the shown questions keyed by
+ * question text, with multiple choices joined by "; "
+ */
+export function toFeedbackResponses(
+  questionnaire: Questionnaire,
+  answers: Answers
+): Record<string, string> {
+  const responses: Record<string, string> = {};
+  visibleQuestions(questionnaire, answers).forEach((question) => {
+    const answer = answers[question.id];
+    if (!hasAnswer(answer)) return;
+    responses[question.text] = Array.isArray(answer)
+      ? answer.join("; ")
+      : (answer as string);
+  });
+  return responses;
+}
+
+/**
+ * Checks a questionnaire loaded from a config file
+ * @throws Error describing the first problem found
+ */
+export function validateQuestionnaire(value: unknown): Questionnaire {
+  const questionnaire = value as Questionnaire;
+  if (
+    typeof questionnaire?.id !== "string" ||
+    typeof questionnaire.title !== "string" ||
+    typeof questionnaire.scales !== "object" ||
+    !Array.isArray(questionnaire.sections)
+  ) {
+    throw new Error("Questionnaire needs an id, title, scales and sections");
+  }
+
+  const ids = new Set<string>();
+  allQuestions(questionnaire).forEach((question) => {
+    if (typeof question?.id !== "string" || ids.has(question.id)) {
+      throw new Error(`Question ids must be unique strings (${question?.id})`);
+    }
+    ids.add(question.id);
+    if (question.type === "likert" && !questionnaire.scales[question.scale]) {
+      throw new Error(
+        `Question ${question.id} uses unknown scale "${question.scale}"`
+      );
+    }
+    if (
+      question.type === "choice" &&
+      (!Array.isArray(question.options) || question.options.length === 0)
+    ) {
+      throw new Error(`Question ${question.id} has no options`);
+    }
+    if (!["likert", "choice", "text"].includes(question.type)) {
+      throw new Error(`Question ${question.id} has unknown type`);
+    }
+  });
+  if (questionnaire.cuq) {
+    const items = questionnaire.cuq.items;
+    if (!Array.isArray(items) || items.length !== CUQ_ITEM_COUNT) {
+      throw new Error(`CUQ scoring needs exactly ${CUQ_ITEM_COUNT} items`);
+    }
+    items.forEach((id) => {
+      const question = allQuestions(questionnaire).find((q) => q.id === id);
+      if (
+        question?.type !== "likert" ||
+        questionnaire.scales[question.scale].length !== CUQ_SCALE_POINTS
+      ) {
+        throw new Error(
+          `CUQ item ${id} should be a ${CUQ_SCALE_POINTS}-point Likert question`
+        );
+      }
+    });
+  }
+  Object.entries(questionnaire.translations ?? {}).forEach(
+    ([locale, translation]) => {
+      Object.entries(translation.scales ?? {}).forEach(([scale, labels]) => {
+        if (labels.length !== questionnaire.scales[scale]?.length) {
+          throw new Error(
+            `Translation "${locale}" of scale "${scale}" has the wrong number of labels`
+          );
+        }
+      });
+    }
+  );
+  allQuestions(questionnaire).forEach((question) => {
+    if (question.showIf && !ids.has(question.showIf.question)) {
+      throw new Error(
+        `Question ${question.id} depends on unknown question "${question.showIf.question}"`
+      );
+    }
+  });
+  // isQuestionVisible follows the conditions up to a question without one
+  const parents = new Map(
+    allQuestions(questionnaire).map((q) => [q.id, q.showIf?.question])
+  );
+  parents.forEach((_, id) => {
+    const chain = [id];
+    for (let next = parents.get(id); next; next = parents.get(next)) {
+      if (chain.includes(next)) {
+        throw new Error(
+          `Questions ${[...chain, next].join(" → ")} depend on each other`
+        );
+      }
+      chain.push(next);
+    }
+  });
+
+  return { ...questionnaire, version: String(questionnaire.version ?? "1") };
+}
@@ -0,0 +1,234 @@
+import { type PersonaReport, personaReportToText } from "@/lib/persona";
+
+/**
+ * Final score of one trait as shown to the participant
+ */
+export interface ReportTraitScore {
+  trait: string; // Trait key in snake_case
+  label: string; // Display name
+  score: number; // Aggregated score
+  confidence: number; // Aggregated confidence
+  scoreMax: number; // Top of the trait's score scale
+  confidenceMax: number; // Top of the trait's confidence scale
+}
+
+/**
+ * Everything a participant can download about their assessment
+ */
+export interface AssessmentReport {
+  generatedAt: string; // ISO timestamp
+  userId: string | null;
+  sessionId: string | null;
+  persona: PersonaReport;
+  aggregation: string; // How the trait scores were aggregated, e.g. "Latest assessment"
+  traitScores: ReportTraitScore[];
+}
+
+/**
+ * Renders the report as a Markdown document
+ */
+export function reportToMarkdown(report: AssessmentReport): string {
+  const { persona } = report;
+  const lines = [
+    "# Financial Persona Report",
+    "",
+    `- **User ID:** ${report.userId ?? "N/A"}`,
+    `- **Session ID:** ${report.sessionId ?? "N/A"}`,
+    `- **Generated:** ${new Date(report.generatedAt).toLocaleString()}`,
+    "",
+  ];
+
+  if (persona.summary.length > 0) {
+    lines.push("## Summary", "", ...persona.summary.flatMap((p) => [p, ""]));
+  }
+  if (persona.strengths.length > 0) {
+    lines.push(
+      "## Strengths",
+      "",
+      ...persona.strengths.map((s) => `- ${s}`),
+      ""
+    );
+  }
+  if (persona.opportunities.length > 0) {
+    lines.push(
+      "## Opportunities to Improve",
+      "",
+      ...persona.opportunities.map((o) => `- ${o}`),
+      ""
+    );
+  }
+  if (persona.traitNotes.length > 0) {
+    lines.push(
+      "## Trait Notes",
+      "",
+      ...persona.traitNotes.map((n) =>
+        n.trait ? `- **${n.trait}:** ${n.note}` : `- ${n.note}`
+      ),
+      ""
+    );
+  }
+  // Nothing could be split into sections, keep the persona as written
+  if (
+    persona.strengths.length === 0 &&
+    persona.opportunities.length === 0 &&
+    persona.traitNotes.length === 0
+  ) {
+    lines.push("## Persona", "", persona.raw, "");
+  }
+
+  lines.push(
+    "## Trait Scores",
+    "",
+    `Aggregation: ${report.aggregation}`,
+    "",
+    "| Trait | Score | Confidence |",
+    "| --- | --- | --- |",
+    ...report.traitScores.map(
+      (t) =>
+        `| ${t.label} | ${t.score.toFixed(1)}/${
+          t.scoreMax
+        } | ${t.confidence.toFixed(1)}/${t.confidenceMax} |`
+    ),
+    ""
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Renders the report as pretty-printed JSON
+ */
+export function reportToJson(report: AssessmentReport): string {
+  return JSON.stringify(
+    {
+      ...report,
+      persona: { ...report.persona, text: personaReportToText(report.persona) },
+    },
+    null,
+    2
+  );
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Renders the report as a standalone, print-friendly HTML page
+ */
+function reportToHtml(report: AssessmentReport): string {
+  const { persona } = report;
+  const list = (items: string[]) =>
+    `<ul>${items.map((i) => `<li>${escapeHtml(i)}</li>`).join("")}</ul>`;
+  const section = (title: string, body: string) =>
+    `<h2>${escapeHtml(title)}</h2>${body}`;
+
+  const sections = [
+    persona.summary.length > 0 &&
+      section(
+        "Summary",
+        persona.summary.map((p) => `<p>${escapeHtml(p)}</p>`).join("")
+      ),
+    persona.strengths.length > 0 &&
+      section("Strengths", list(persona.strengths)),
+    persona.opportunities.length > 0 &&
+      section("Opportunities to Improve", list(persona.opportunities)),
+    persona.traitNotes.length > 0 &&
+      section(
+        "Trait Notes",
+        list(
+          persona.traitNotes.map((n) =>
+            n.trait ? `${n.trait}: ${n.note}` : n.note
+          )
+        )
+      ),
+    persona.strengths.length === 0 &&
+      persona.opportunities.length === 0 &&
+      persona.traitNotes.length === 0 &&
+      section("Persona", `<p class="raw">${escapeHtml(persona.raw)}</p>`),
+    section(
+      "Trait Scores",
+      `<p class="meta">Aggregation: ${escapeHtml(
+        report.aggregation
+      )}</p><table><thead><tr><th>Trait</th><th>Score</th><th>Confidence</th></tr></thead><tbody>${report.traitScores
+        .map(
+          (t) =>
+            `<tr><td>${escapeHtml(t.label)}</td><td>${t.score.toFixed(1)}/${
+              t.scoreMax
+            }</td><td>${t.confidence.toFixed(1)}/${t.confidenceMax}</td></tr>`
+        )
+        .join("")}</tbody></table>`
+    ),
+  ].filter(Boolean);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Financial Persona Report</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; line-height: 1.5; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { border-bottom: 1px solid #ccc; padding-bottom: 0.25rem; margin-top: 1.5rem; }
+  .meta { color: #555; font-size: 0.9rem; }
+  .raw { white-space: pre-wrap; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #ccc; padding: 0.4rem 0.6rem; text-align: left; }
+</style>
+</head>
+<body>
+<h1>Financial Persona Report</h1>
+<p class="meta">User ID: ${escapeHtml(
+    report.userId ?? "N/A"
+  )} &middot; Session ID: ${escapeHtml(
+    report.sessionId ?? "N/A"
+  )} &middot; Generated: ${escapeHtml(
+    new Date(report.generatedAt).toLocaleString()
+  )}</p>
+${sections.join("\n")}
+</body>
+</html>`;
+}
+
+/**
+ * Saves text content as a file through a temporary download link
+ * @param filename - Suggested file name
+ * @param content - File contents
+ * @param type - MIME type of the contents
+ */
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Opens the report in a new window and brings up the print dialog, where
+ * the participant can save it as a PDF
+ * @returns False if the browser blocked the window
+ */
+export function printReport(report: AssessmentReport): boolean {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) return false;
+
+  printWindow.document.write(reportToHtml(report));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
+
+/**
+ * Base file name for downloads, e.g. "financial-persona-<session id>"
+ */
+export function reportFileName(report: AssessmentReport) {
+  return `financial-persona-${report.sessionId ?? "report"}`;
+}
@@ -0,0 +1,65 @@
+// SHA-256 hex digest of the researcher passphrase. Researcher mode cannot be
+// unlocked when this is not set.
+const PASSPHRASE_SHA256 =
+  process.env.NEXT_PUBLIC_RESEARCHER_KEY_SHA256?.trim().toLowerCase();
+
+// Only records that the passphrase was entered in this tab. The digest above
+// ships in the bundle, so storing it would unlock the mode without the
+// passphrase; the flag instead ends with the tab and the passphrase is asked
+// for again.
+const STORAGE_KEY = "assessment-researcher-mode";
+const UNLOCKED = "unlocked";
+
+// Query parameter carrying the passphrase, e.g. /chatbot?researcher=...
+export const RESEARCHER_QUERY_PARAM = "researcher";
+
+function getStorage(): Storage | null {
+  // sessionStorage is unavailable during server rendering and may throw when
+  // blocked by browser privacy settings
+  try {
+    return typeof window === "undefined" ? null : window.sessionStorage;
+  } catch {
+    return null;
+  }
+}
+
+async function sha256(text: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Whether researcher mode has been unlocked in this browser tab
+ */
+export function isResearcherModeUnlocked() {
+  if (!PASSPHRASE_SHA256) return false;
+  return getStorage()?.getItem(STORAGE_KEY) === UNLOCKED;
+}
+
+/**
+ * Unlocks researcher mode in this browser tab if the passphrase is correct
+ * @returns Whether the passphrase was accepted
+ */
+export async function unlockResearcherMode(passphrase: string) {
+  // crypto.subtle only exists on https and localhost
+  if (!PASSPHRASE_SHA256 || typeof crypto === "undefined" || !crypto.subtle) {
+    return false;
+  }
+  const digest = await sha256(passphrase);
+  if (digest !== PASSPHRASE_SHA256) return false;
+
+  getStorage()?.setItem(STORAGE_KEY, UNLOCKED);
+  return true;
+}
+
+/**
+ * Leaves researcher mode in this browser tab
+ */
+export function lockResearcherMode() {
+  getStorage()?.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,102 @@
+import { CUQ_SCALE_POINTS } from "@/lib/cuq";
+import {
+  type Answers,
+  type Questionnaire,
+  visibleQuestions,
+} from "@/lib/questionnaire";
+
+/**
+ * Signs that a feedback submission may not reflect the participant's views
+ */
+export type QualityFlag = "straight_lining" | "inconsistent_pairs" | "too_fast";
+
+/**
+ * Data-quality checks of one feedback submission
+ */
+export interface ResponseQuality {
+  flags: QualityFlag[]; // Checks that failed, empty for a clean submission
+  straightLining: boolean; // Every Likert item got the same option
+  inconsistentPairs: [string, string][]; // Positive and negative item ids answered alike
+  durationSeconds: number; // From opening the form to submitting it
+}
+
+// Straight-lining is only meaningful over enough items
+export const MIN_ITEMS_FOR_STRAIGHT_LINING = 5;
+// Flagged when more positive/negative pairs than this contradict each
+// other; a single pair is often a misread statement
+export const MAX_INCONSISTENT_PAIRS = 2;
+// Faster than this per answered question is not reading the statements
+export const MIN_SECONDS_PER_QUESTION = 2;
+
+/**
+ * Positive/negative statement pairs of the CUQ: items 1 and 2, 3 and 4, ...
+ */
+function cuqPairs(questionnaire: Questionnaire): [string, string][] {
+  const items = questionnaire.cuq?.items ?? [];
+  const pairs: [string, string][] = [];
+  for (let i = 0; i + 1 < items.length; i += 2) {
+    pairs.push([items[i], items[i + 1]]);
+  }
+  return pairs;
+}
+
+/**
+ * Checks a feedback submission for straight-lining over the shown Likert
+ * items, contradictory answers to the CUQ's positive/negative pairs
+ * (agreeing or disagreeing with both) and implausibly fast completion
+ * @param durationSeconds - Time spent on the form
+ */
+export function assessResponseQuality(
+  questionnaire: Questionnaire,
+  answers: Answers,
+  durationSeconds: number
+): ResponseQuality {
+  const shown = visibleQuestions(questionnaire, answers);
+
+  const likertAnswers = shown
+    .filter((question) => question.type === "likert")
+    .map((question) => answers[question.id])
+    .filter((answer): answer is string => typeof answer === "string");
+  const straightLining =
+    likertAnswers.length >= MIN_ITEMS_FOR_STRAIGHT_LINING &&
+    new Set(likertAnswers).size === 1;
+
+  // 1-based rating on a 5-point scale, 0 if unanswered
+  const rating = (id: string) => {
+    const question = shown.find((q) => q.id === id);
+    if (question?.type !== "likert") return 0;
+    return (
+      (questionnaire.scales[question.scale] ?? []).indexOf(
+        answers[id] as string
+      ) + 1
+    );
+  };
+  const midpoint = (CUQ_SCALE_POINTS + 1) / 2;
+  const inconsistentPairs = cuqPairs(questionnaire).filter(
+    ([positive, negative]) => {
+      const a = rating(positive);
+      const b = rating(negative);
+      if (!a || !b) return false;
+      return (a > midpoint && b > midpoint) || (a < midpoint && b < midpoint);
+    }
+  );
+
+  const answered = shown.filter(
+    (question) => answers[question.id]?.length
+  ).length;
+  const tooFast = durationSeconds < answered * MIN_SECONDS_PER_QUESTION;
+
+  const flags: QualityFlag[] = [];
+  if (straightLining) flags.push("straight_lining");
+  if (inconsistentPairs.length > MAX_INCONSISTENT_PAIRS) {
+    flags.push("inconsistent_pairs");
+  }
+  if (tooFast) flags.push("too_fast");
+
+  return {
+    flags,
+    straightLining,
+    inconsistentPairs,
+    durationSeconds: Math.round(durationSeconds),
+  };
+}
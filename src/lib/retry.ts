@@ -0,0 +1,39 @@
+export interface RetryOptions {
+  retries?: number; // Extra attempts after the first one
+  baseDelayMs?: number; // Delay before the first retry, doubled on every retry
+  maxDelayMs?: number; // Upper bound for a single delay
+  shouldRetry?: (error: unknown) => boolean; // Return false to fail immediately
+  onRetry?: (attempt: number, error: unknown) => void; // Called before each retry
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs an async operation, retrying it with exponential backoff and jitter
+ * when it fails with a retryable error
+ * @param operation - Operation to run, receives the 0-based attempt number
+ * @returns The result of the first successful attempt
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  {
+    retries = 3,
+    baseDelayMs = 1000,
+    maxDelayMs = 8000,
+    shouldRetry = () => true,
+    onRetry,
+  }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) throw error;
+
+      const delay = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+      onRetry?.(attempt + 1, error);
+      // Jitter keeps many clients from retrying in lockstep after an outage
+      await wait(delay / 2 + Math.random() * (delay / 2));
+    }
+  }
+}
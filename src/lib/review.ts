@@ -0,0 +1,266 @@
+import { isAggregationMethod } from "@/lib/aggregation";
+import type { PersonaReport } from "@/lib/persona";
+import {
+  SESSION_EXPORT_VERSION,
+  type SessionExport,
+} from "@/lib/session-export";
+import type { ChatState, Message, TraitData } from "@/lib/types";
+
+/**
+ * An exported session loaded into the review console
+ */
+export interface ReviewSession {
+  fileName: string;
+  data: SessionExport;
+  chatState: ChatState; // Messages and trait data with Date timestamps
+  persona: PersonaReport | null;
+}
+
+/**
+ * One user message with the replies and assessments it produced
+ */
+export interface ReviewTurn {
+  number: number; // 1-based
+  message: Message; // The user message that opened the turn
+  replies: Message[];
+  assessments: TraitData[];
+}
+
+/**
+ * Inclusive range of final scores a session must fall into
+ */
+export interface TraitRange {
+  min: number;
+  max: number;
+}
+
+type Fields = Record<string, unknown>;
+
+// Field checks of session files, raising "<path> should be ..." errors that
+// parseSessionFile prefixes with the file name
+
+function expectObject(path: string, value: unknown): Fields {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`${path} should be an object`);
+  }
+  return value as Fields;
+}
+
+function expectArray(path: string, value: unknown): unknown[] {
+  if (!Array.isArray(value)) throw new Error(`${path} should be a list`);
+  return value;
+}
+
+function expectString(path: string, value: unknown) {
+  if (typeof value !== "string") throw new Error(`${path} should be text`);
+}
+
+function expectNumber(path: string, value: unknown) {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`${path} should be a number`);
+  }
+}
+
+function expectTimestamp(path: string, value: unknown) {
+  expectString(path, value);
+  if (Number.isNaN(Date.parse(value as string))) {
+    throw new Error(`${path} should be an ISO timestamp`);
+  }
+}
+
+function expectStrings(path: string, value: unknown) {
+  expectArray(path, value).forEach((item, i) =>
+    expectString(`${path}[${i}]`, item)
+  );
+}
+
+/**
+ * Runs a check on a field that may be missing
+ */
+function optional(value: unknown, check: (value: unknown) => void) {
+  if (value !== undefined && value !== null) check(value);
+}
+
+/**
+ * Checks that a parsed file has every field of a SessionExport the review
+ * console reads, so a damaged file is rejected instead of breaking the page
+ * @throws Error naming the first field that does not match
+ */
+function validateSessionExport(value: unknown): SessionExport {
+  const data = expectObject("the file", value);
+  if (data.format !== "assessment-session") {
+    throw new Error("is not an exported session");
+  }
+  expectNumber("version", data.version);
+  if ((data.version as number) > SESSION_EXPORT_VERSION) {
+    throw new Error(
+      `was exported with a newer version (${data.version}) of the app`
+    );
+  }
+  expectTimestamp("exportedAt", data.exportedAt);
+  expectString("userId", data.userId);
+  expectString("sessionId", data.sessionId);
+
+  expectArray("messages", data.messages).forEach((item, i) => {
+    const path = `messages[${i}]`;
+    const message = expectObject(path, item);
+    expectString(`${path}.id`, message.id);
+    if (message.type !== "user" && message.type !== "ai") {
+      throw new Error(`${path}.type should be "user" or "ai"`);
+    }
+    expectString(`${path}.content`, message.content);
+    expectTimestamp(`${path}.timestamp`, message.timestamp);
+  });
+
+  expectArray("traitData", data.traitData).forEach((item, i) => {
+    const path = `traitData[${i}]`;
+    const entry = expectObject(path, item);
+    expectString(`${path}.trait`, entry.trait);
+    ["score", "confidence", "iteration"].forEach((field) =>
+      optional(entry[field], (v) => expectNumber(`${path}.${field}`, v))
+    );
+    ["sentence", "rationale"].forEach((field) =>
+      optional(entry[field], (v) => expectString(`${path}.${field}`, v))
+    );
+    optional(entry.timestamp, (v) => expectTimestamp(`${path}.timestamp`, v));
+  });
+
+  const aggregation = expectObject("aggregation", data.aggregation);
+  expectString("aggregation.method", aggregation.method);
+  if (!isAggregationMethod(aggregation.method as string)) {
+    throw new Error(
+      `aggregation.method "${aggregation.method}" is not a known method`
+    );
+  }
+  expectNumber("aggregation.halfLife", aggregation.halfLife);
+
+  expectArray("finalScores", data.finalScores).forEach((item, i) => {
+    const path = `finalScores[${i}]`;
+    const score = expectObject(path, item);
+    expectString(`${path}.trait`, score.trait);
+    expectString(`${path}.label`, score.label);
+    expectNumber(`${path}.score`, score.score);
+    expectNumber(`${path}.confidence`, score.confidence);
+  });
+
+  optional(data.persona, (value) => {
+    const persona = expectObject("persona", value);
+    expectString("persona.text", persona.text);
+    const report = expectObject("persona.report", persona.report);
+    expectStrings("persona.report.summary", report.summary);
+    expectStrings("persona.report.strengths", report.strengths);
+    expectStrings("persona.report.opportunities", report.opportunities);
+    expectArray("persona.report.traitNotes", report.traitNotes).forEach(
+      (item, i) => {
+        const note = expectObject(`persona.report.traitNotes[${i}]`, item);
+        expectString(`persona.report.traitNotes[${i}].trait`, note.trait);
+        expectString(`persona.report.traitNotes[${i}].note`, note.note);
+      }
+    );
+    expectString("persona.report.raw", report.raw);
+  });
+
+  optional(data.feedback, (value) => {
+    const feedback = expectObject("feedback", value);
+    expectTimestamp("feedback.submittedAt", feedback.submittedAt);
+    Object.entries(
+      expectObject("feedback.responses", feedback.responses)
+    ).forEach(([question, answer]) =>
+      expectString(`feedback.responses["${question}"]`, answer)
+    );
+  });
+
+  return data as unknown as SessionExport;
+}
+
+/**
+ * Reads an exported session file
+ * @param fileName - Name of the dropped file, shown in errors
+ * @param text - File contents
+ * @throws Error naming the file when it is not a valid session export
+ */
+export function parseSessionFile(
+  fileName: string,
+  text: string
+): ReviewSession {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error(`${fileName} is not valid JSON`);
+  }
+
+  let data: SessionExport;
+  try {
+    data = validateSessionExport(json);
+  } catch (error) {
+    throw new Error(
+      `${fileName} ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return {
+    fileName,
+    data,
+    chatState: {
+      messages: data.messages.map((message) => ({
+        ...message,
+        timestamp: new Date(message.timestamp),
+      })),
+      traitData: data.traitData.map((entry) => ({
+        ...entry,
+        timestamp: entry.timestamp ? new Date(entry.timestamp) : undefined,
+      })),
+    },
+    persona: data.persona?.report ?? null,
+  };
+}
+
+/**
+ * Splits the conversation into turns. A turn runs from a user message to the
+ * next one, and holds the assessments made in between.
+ */
+export function buildTurns(chatState: ChatState): ReviewTurn[] {
+  const turns: ReviewTurn[] = [];
+  chatState.messages.forEach((message) => {
+    if (message.type === "user") {
+      turns.push({
+        number: turns.length + 1,
+        message,
+        replies: [],
+        assessments: [],
+      });
+    } else {
+      turns[turns.length - 1]?.replies.push(message);
+    }
+  });
+
+  chatState.traitData.forEach((entry) => {
+    if (!entry.timestamp) return;
+    // Last turn that started before the assessment was recorded
+    const turn = [...turns]
+      .reverse()
+      .find((t) => t.message.timestamp <= (entry.timestamp as Date));
+    turn?.assessments.push(entry);
+  });
+
+  return turns;
+}
+
+/**
+ * Whether every constrained trait has a final score inside its range.
+ * Sessions without a final score for a constrained trait never match.
+ */
+export function matchesTraitRanges(
+  session: ReviewSession,
+  ranges: Record<string, TraitRange>
+) {
+  return Object.entries(ranges).every(([trait, range]) => {
+    const final = session.data.finalScores.find((s) => s.trait === trait);
+    return (
+      final !== undefined &&
+      final.score >= range.min &&
+      final.score <= range.max
+    );
+  });
+}
@@ -0,0 +1,247 @@
+import {
+  type AggregationMethod,
+  aggregateTraitScores,
+} from "@/lib/aggregation";
+import type { StoredChatSession } from "@/lib/chat-storage";
+import type { CuqScore } from "@/lib/cuq";
+import type { ResponseQuality } from "@/lib/response-quality";
+import { type PersonaReport, personaReportToText } from "@/lib/persona";
+import { downloadFile } from "@/lib/report-export";
+import { type TraitRegistry, getTraitLabel } from "@/lib/traits";
+
+// Bumped whenever a field is renamed or removed, not when one is added
+export const SESSION_EXPORT_VERSION = 1;
+
+/**
+ * Full record of one session for offline analysis. Documented in the
+ * README under "Session Export".
+ */
+export interface SessionExport {
+  format: "assessment-session";
+  version: number; // SESSION_EXPORT_VERSION the file was written with
+  exportedAt: string; // ISO timestamp
+  userId: string;
+  sessionId: string;
+  messages: {
+    id: string;
+    type: "user" | "ai";
+    content: string;
+    timestamp: string; // ISO timestamp
+    status?: "queued" | "sending" | "failed"; // Set if never answered
+    replaces?: string; // Id of the message this edit replaced
+    terminate?: boolean; // The participant ended the chat with this message
+  }[];
+  traitData: {
+    trait: string; // Trait key in snake_case
+    score?: number;
+    confidence?: number;
+    sentence?: string;
+    rationale?: string;
+    iteration?: number;
+    timestamp?: string; // ISO timestamp
+  }[];
+  aggregation: {
+    method: AggregationMethod;
+    halfLife: number; // Only used by exponential_decay
+  };
+  finalScores: {
+    trait: string;
+    label: string;
+    score: number;
+    confidence: number;
+  }[];
+  persona: {
+    text: string; // Persona as shown, sections joined back into text
+    report: PersonaReport;
+  } | null;
+  feedback: {
+    submittedAt: string; // ISO timestamp
+    responses: Record<string, string>; // Answers keyed by question text
+    cuq?: CuqScore; // Usability score and per-dimension sub-scores, 0-100
+    quality?: ResponseQuality; // Data-quality flags of the answers
+  } | null;
+}
+
+/**
+ * Collects everything recorded about a stored session
+ * @param session - Session as saved in this browser
+ * @param registry - Trait registry of the study, for labels and aggregation
+ */
+export function buildSessionExport(
+  session: Pick<
+    StoredChatSession,
+    "userId" | "sessionId" | "chatState" | "personaData" | "feedback"
+  >,
+  registry: TraitRegistry
+): SessionExport {
+  const { chatState } = session;
+  return {
+    format: "assessment-session",
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    userId: session.userId,
+    sessionId: session.sessionId,
+    messages: chatState.messages.map((message) => ({
+      id: message.id,
+      type: message.type,
+      content: message.content,
+      timestamp: message.timestamp.toISOString(),
+      status: message.status,
+      replaces: message.replaces,
+      terminate: message.terminate,
+    })),
+    traitData: chatState.traitData.map((data) => ({
+      ...data,
+      timestamp: data.timestamp?.toISOString(),
+    })),
+    aggregation: { ...registry.aggregation },
+    finalScores: aggregateTraitScores(
+      chatState.traitData,
+      registry.aggregation
+    ).map((score) => ({
+      ...score,
+      label: getTraitLabel(registry, score.trait),
+    })),
+    persona: session.personaData && {
+      text: personaReportToText(session.personaData),
+      report: session.personaData,
+    },
+    feedback: session.feedback ?? null,
+  };
+}
+
+/**
+ * Renders the export as pretty-printed JSON
+ */
+export function sessionExportToJson(data: SessionExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+// Columns of the CSV export, one row per record in long format
+const CSV_COLUMNS = [
+  "record",
+  "user_id",
+  "session_id",
+  "timestamp",
+  "message_id",
+  "message_type",
+  "content",
+  "trait",
+  "score",
+  "confidence",
+  "iteration",
+  "sentence",
+  "rationale",
+  "question",
+  "answer",
+] as const;
+
+type CsvRow = Partial<
+  Record<(typeof CSV_COLUMNS)[number], string | number | undefined>
+>;
+
+const escapeCsv = (value: string | number | undefined) => {
+  if (value === undefined) return "";
+  // Participant text starting like a formula would run in a spreadsheet
+  const text =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Renders the export as a single long-format CSV table. The `record`
+ * column is "message", "trait_data", "final_score", "persona", "feedback",
+ * "cuq" or "quality_flag" and decides which of the other columns are filled.
+ */
+export function sessionExportToCsv(data: SessionExport): string {
+  const rows: CsvRow[] = [
+    ...data.messages.map((message) => ({
+      record: "message",
+      timestamp: message.timestamp,
+      message_id: message.id,
+      message_type: message.type,
+      content: message.content,
+    })),
+    ...data.traitData.map((entry) => ({
+      record: "trait_data",
+      timestamp: entry.timestamp,
+      trait: entry.trait,
+      score: entry.score,
+      confidence: entry.confidence,
+      iteration: entry.iteration,
+      sentence: entry.sentence,
+      rationale: entry.rationale,
+    })),
+    ...data.finalScores.map((entry) => ({
+      record: "final_score",
+      timestamp: data.exportedAt,
+      trait: entry.trait,
+      score: entry.score,
+      confidence: entry.confidence,
+      content: data.aggregation.method,
+    })),
+    ...(data.persona
+      ? [{ record: "persona", content: data.persona.text }]
+      : []),
+    ...Object.entries(data.feedback?.responses ?? {}).map(
+      ([question, answer]) => ({
+        record: "feedback",
+        timestamp: data.feedback?.submittedAt,
+        question,
+        answer,
+      })
+    ),
+    ...(data.feedback?.cuq
+      ? Object.entries({
+          total: data.feedback.cuq.score,
+          ...data.feedback.cuq.dimensions,
+        }).map(([dimension, score]) => ({
+          record: "cuq",
+          timestamp: data.feedback?.submittedAt,
+          question: dimension,
+          score,
+        }))
+      : []),
+    ...(data.feedback?.quality?.flags ?? []).map((flag) => ({
+      record: "quality_flag",
+      timestamp: data.feedback?.submittedAt,
+      content: flag,
+    })),
+  ];
+
+  return [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) =>
+      CSV_COLUMNS.map((column) =>
+        escapeCsv(
+          column === "user_id"
+            ? data.userId
+            : column === "session_id"
+            ? data.sessionId
+            : row[column]
+        )
+      ).join(",")
+    ),
+  ].join("\r\n");
+}
+
+/**
+ * Downloads the export as "assessment-session-<session id>.json" or ".csv"
+ */
+export function downloadSessionExport(
+  data: SessionExport,
+  format: "json" | "csv"
+) {
+  const fileName = `assessment-session-${data.sessionId}`;
+  if (format === "json") {
+    downloadFile(
+      `${fileName}.json`,
+      sessionExportToJson(data),
+      "application/json"
+    );
+  } else {
+    downloadFile(`${fileName}.csv`, sessionExportToCsv(data), "text/csv");
+  }
+}
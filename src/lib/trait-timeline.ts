@@ -0,0 +1,74 @@
+import type { TraitData } from "@/lib/types";
+
+/**
+ * One assessment of a trait placed on the timeline
+ */
+export interface TimelinePoint {
+  step: number; // Backend iteration, or assessment order when unknown
+  score: number;
+  confidence?: number;
+  timestamp?: Date;
+}
+
+/**
+ * How a trait's score behaved over the assessment
+ */
+export type TimelineTrend = "single" | "stable" | "oscillating" | "drifting";
+
+// Scores closer than this are considered unchanged
+const STABLE_DELTA = 0.5;
+
+/**
+ * Groups scored trait data into one chronological series per trait
+ * @param traitData - All trait assessments of the session
+ * @param traits - Traits to build series for, in display order
+ */
+export function buildTraitTimelines(
+  traitData: TraitData[],
+  traits: string[]
+): Record<string, TimelinePoint[]> {
+  // Sessions recorded before iterations were tracked fall back to order
+  const hasIterations = traitData.every((d) => d.iteration !== undefined);
+
+  return Object.fromEntries(
+    traits.map((trait) => {
+      const points = traitData
+        .filter((d) => d.trait === trait && d.score !== undefined)
+        .sort(
+          (a, b) =>
+            (a.timestamp?.getTime() ?? 0) - (b.timestamp?.getTime() ?? 0)
+        )
+        .map((d, index) => ({
+          step: hasIterations ? (d.iteration as number) : index + 1,
+          score: d.score as number,
+          confidence: d.confidence,
+          timestamp: d.timestamp,
+        }));
+      return [trait, points];
+    })
+  );
+}
+
+/**
+ * Classifies a series: stable if the last two scores agree, oscillating if
+ * the score changed direction more than once, drifting otherwise
+ */
+export function describeTrend(points: TimelinePoint[]): TimelineTrend {
+  if (points.length < 2) return "single";
+
+  let reversals = 0;
+  let lastDirection = 0;
+  for (let i = 1; i < points.length; i++) {
+    const delta = points[i].score - points[i - 1].score;
+    if (Math.abs(delta) < STABLE_DELTA) continue;
+    const direction = Math.sign(delta);
+    if (lastDirection !== 0 && direction !== lastDirection) reversals++;
+    lastDirection = direction;
+  }
+
+  const last = points[points.length - 1].score;
+  const previous = points[points.length - 2].score;
+  if (reversals > 1) return "oscillating";
+  if (Math.abs(last - previous) < STABLE_DELTA) return "stable";
+  return "drifting";
+}
@@ -0,0 +1,173 @@
+import {
+  type AggregationConfig,
+  DEFAULT_AGGREGATION,
+  isAggregationMethod,
+} from "@/lib/aggregation";
+import {
+  type AggregationConfigResponse,
+  type TraitRegistryResponse,
+  type TraitScale,
+  fetchTraitRegistry,
+  parseTraitRegistryResponse,
+} from "@/lib/api";
+
+export type { TraitScale };
+
+/**
+ * A financial trait the assessment can score
+ */
+export interface TraitDefinition {
+  key: string; // snake_case key used in the backend state, e.g. "self_control"
+  label: string; // Display name
+  description: string;
+  scoreScale: TraitScale;
+  confidenceScale: TraitScale;
+}
+
+/**
+ * Traits of the current study and the rule for enabling the persona
+ */
+export interface TraitRegistry {
+  traits: TraitDefinition[];
+  minTraitsForPersona: number; // Traits that must be scored before "Generate Persona" is enabled
+  aggregation: AggregationConfig; // How each trait's assessments become its final score
+}
+
+export const DEFAULT_SCORE_SCALE: TraitScale = { min: 1, max: 5 };
+export const DEFAULT_CONFIDENCE_SCALE: TraitScale = { min: 1, max: 10 };
+
+/**
+ * Converts the aggregation settings of a registry, falling back to the
+ * mean for unknown methods
+ */
+function toAggregationConfig(
+  response: AggregationConfigResponse | undefined
+): AggregationConfig {
+  if (!response) return DEFAULT_AGGREGATION;
+  if (!isAggregationMethod(response.method)) {
+    console.warn(
+      `Unknown aggregation method "${response.method}", using "${DEFAULT_AGGREGATION.method}"`
+    );
+    return DEFAULT_AGGREGATION;
+  }
+  return {
+    method: response.method,
+    halfLife: response.half_life ?? DEFAULT_AGGREGATION.halfLife,
+  };
+}
+
+/**
+ * Converts a registry served by the backend or a config file
+ */
+export function toTraitRegistry(
+  response: TraitRegistryResponse
+): TraitRegistry {
+  const traits = response.traits.map((trait) => ({
+    key: trait.key,
+    label: trait.label,
+    description: trait.description ?? "",
+    scoreScale: trait.score_scale ?? DEFAULT_SCORE_SCALE,
+    confidenceScale: trait.confidence_scale ?? DEFAULT_CONFIDENCE_SCALE,
+  }));
+  return {
+    traits,
+    minTraitsForPersona: Math.min(
+      response.min_traits_for_persona ?? traits.length,
+      traits.length
+    ),
+    aggregation: toAggregationConfig(response.aggregation),
+  };
+}
+
+/**
+ * The six traits assessed by the original study
+ */
+export const DEFAULT_TRAIT_REGISTRY: TraitRegistry = toTraitRegistry({
+  traits: [
+    {
+      key: "awareness",
+      label: "Awareness",
+      description: "Financial knowledge and understanding",
+    },
+    {
+      key: "self_control",
+      label: "Self Control",
+      description: "Impulse control and discipline",
+    },
+    {
+      key: "preparedness",
+      label: "Preparedness",
+      description: "Planning and preparation habits",
+    },
+    {
+      key: "information_seeking",
+      label: "Information Seeking",
+      description: "Research and due diligence behavior",
+    },
+    {
+      key: "risk_seeking",
+      label: "Risk Seeking",
+      description: "Risk tolerance and appetite",
+    },
+    {
+      key: "reaction_to_external_events",
+      label: "Reaction to External Events",
+      description: "Response to market changes and external factors",
+    },
+  ],
+});
+
+// Where to load the registry from: unset for the built-in traits, "backend"
+// for the /traits endpoint, anything else is the URL of a JSON config file
+const REGISTRY_SOURCE = process.env.NEXT_PUBLIC_TRAIT_REGISTRY;
+
+/**
+ * Loads the trait registry of the current study. Falls back to the
+ * built-in traits if the configured source cannot be loaded.
+ */
+export async function loadTraitRegistry(): Promise<TraitRegistry> {
+  if (!REGISTRY_SOURCE) return DEFAULT_TRAIT_REGISTRY;
+
+  try {
+    if (REGISTRY_SOURCE === "backend") {
+      return toTraitRegistry(await fetchTraitRegistry());
+    }
+    const response = await fetch(REGISTRY_SOURCE);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return toTraitRegistry(
+      parseTraitRegistryResponse(REGISTRY_SOURCE, await response.json())
+    );
+  } catch (error) {
+    console.error("Failed to load trait registry, using defaults", error);
+    return DEFAULT_TRAIT_REGISTRY;
+  }
+}
+
+/**
+ * Converts snake_case trait names to human-readable format
+ * @param trait - The trait name in snake_case
+ * @returns Formatted trait name with proper capitalization
+ */
+function formatTraitKey(trait: string) {
+  return trait
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+/**
+ * Looks up a trait definition by key
+ */
+export function getTrait(registry: TraitRegistry, key: string) {
+  return registry.traits.find((trait) => trait.key === key);
+}
+
+/**
+ * Display name of a trait, derived from its key for traits the registry
+ * does not know (e.g. keys written by the persona generator)
+ */
+export function getTraitLabel(registry: TraitRegistry, key: string) {
+  return getTrait(registry, key)?.label ?? formatTraitKey(key);
+}
@@ -0,0 +1,53 @@
+import type { BackendState } from "@/lib/api";
+
+/**
+ * Represents a chat message between user and AI
+ */
+export interface Message {
+  id: string;
+  type: "user" | "ai";
+  content: string;
+  timestamp: Date;
+  // Delivery status of user messages, undefined once the backend has answered
+  status?: "queued" | "sending" | "failed";
+  error?: string; // Why the last delivery attempt failed
+  replaces?: string; // Id of the message this one replaced when it was edited
+  terminate?: boolean; // Asks the backend to end the chat, set by /end and /quit
+}
+
+/**
+ * Represents assessment data for a specific financial trait
+ */
+export interface TraitData {
+  trait: string;
+  score?: number; // Score from 1-5
+  confidence?: number; // Confidence level from 1-10
+  sentence?: string; // Assessment description
+  rationale?: string; // Reasoning behind the assessment
+  timestamp?: Date; // When the assessment was made
+  iteration?: number; // Backend iteration that produced the assessment
+}
+
+/**
+ * Main state structure for the chat application
+ */
+export interface ChatState {
+  messages: Message[]; // Array of all chat messages
+  traitData: TraitData[]; // Array of all trait assessments
+  currentPriority?: string; // Current trait being assessed
+  currentIteration?: number; // Current iteration of assessment
+  backendState?: BackendState; // Complete backend state for API calls
+  rollback?: TurnRollback; // How to undo the last answered turn
+}
+
+/**
+ * Assessment state from before the last answered user message, restored
+ * when that message is edited and resent
+ */
+export interface TurnRollback {
+  messageId: string; // The user message whose turn this undoes
+  traitCount: number; // Length of traitData before the turn, later entries came from it
+  currentPriority?: string;
+  currentIteration?: number;
+  backendState?: BackendState;
+}
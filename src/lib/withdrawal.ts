@@ -0,0 +1,31 @@
+// Participants can withdraw their consent for this long after their session,
+// as promised by the consent form
+export const WITHDRAWAL_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Last moment consent for a session can be withdrawn
+ * @param sessionStartedAt - ISO timestamp of the session
+ */
+export function withdrawalDeadline(sessionStartedAt: string) {
+  return new Date(
+    new Date(sessionStartedAt).getTime() + WITHDRAWAL_WINDOW_DAYS * DAY_MS
+  );
+}
+
+/**
+ * Whole days left to withdraw, zero once the window has closed
+ */
+export function daysLeftToWithdraw(sessionStartedAt: string, now = new Date()) {
+  const remaining =
+    withdrawalDeadline(sessionStartedAt).getTime() - now.getTime();
+  return Math.max(0, Math.ceil(remaining / DAY_MS));
+}
+
+/**
+ * Whether the withdrawal window of a session is still open
+ */
+export function canWithdraw(sessionStartedAt: string, now = new Date()) {
+  return now.getTime() <= withdrawalDeadline(sessionStartedAt).getTime();
+}
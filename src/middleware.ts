@@ -0,0 +1,28 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { CONSENT_COOKIE, parseConsentCookie } from "@/lib/consent";
+
+/**
+ * Sends visitors without a valid consent record to the consent page, which
+ * brings them back to the page they asked for once they have consented.
+ * The cookie is not signed, this is a convenience gate only: whether
+ * someone consented is decided by the record the backend stored.
+ */
+export function middleware(request: NextRequest) {
+  const consent = parseConsentCookie(
+    request.cookies.get(CONSENT_COOKIE)?.value
+  );
+  if (consent) return NextResponse.next();
+
+  const url = request.nextUrl.clone();
+  url.pathname = "/";
+  url.search = "";
+  url.searchParams.set(
+    "next",
+    request.nextUrl.pathname + request.nextUrl.search
+  );
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  matcher: ["/chatbot/:path*", "/feedback/:path*"],
+};